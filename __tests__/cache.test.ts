@@ -0,0 +1,118 @@
+// __tests__/cache.test.ts
+import { describe, expect, it } from "vitest";
+import { createCachedStore, createMemoryStore, type DataStore } from "@/lib/data";
+import { createViewer } from "@/lib/viewer";
+import { USERS, buildFixtures } from "./fixtures";
+
+// listAuthors / listByIds に渡った id を記録する
+function countingStore(inner: DataStore) {
+  const calls = { authors: [] as string[][], places: [] as string[][] };
+  const store: DataStore = {
+    ...inner,
+    profiles: {
+      ...inner.profiles,
+      listAuthors: (ids) => {
+        calls.authors.push(ids);
+        return inner.profiles.listAuthors(ids);
+      },
+    },
+    places: {
+      ...inner.places,
+      listByIds: (ids) => {
+        calls.places.push(ids);
+        return inner.places.listByIds(ids);
+      },
+    },
+  };
+  return { store, calls };
+}
+
+function setup(ttlMs = 60_000) {
+  const fixtures = buildFixtures();
+  let now = 0;
+  const { store, calls } = countingStore(createMemoryStore(fixtures));
+  const cached = createCachedStore(store, { ttlMs, now: () => now });
+  return { fixtures, cached, calls, advance: (ms: number) => (now += ms) };
+}
+
+describe("createCachedStore", () => {
+  it("batches concurrent loads into one deduped lookup", async () => {
+    const { cached, calls } = setup();
+
+    const [a, b] = await Promise.all([
+      cached.profiles.listAuthors([USERS.alice, USERS.bob, USERS.alice]),
+      cached.profiles.listSummaries([USERS.bob, USERS.carol]),
+    ]);
+
+    expect(a.map((p) => p.id)).toEqual([USERS.alice, USERS.bob]);
+    expect(b.map((p) => p.id)).toEqual([USERS.bob, USERS.carol]);
+    expect(b[0]).not.toHaveProperty("bio");
+    expect(calls.authors).toEqual([[USERS.alice, USERS.bob, USERS.carol]]);
+  });
+
+  it("does not cache is_public so a profile that goes private is hidden at once", async () => {
+    const { fixtures, cached, calls } = setup();
+    const viewer = createViewer(cached, null);
+
+    const [before] = await cached.profiles.listAuthors([USERS.bob]);
+    expect(await viewer.canView(before)).toBe(true);
+
+    // updated_at は変わらないまま非公開にした
+    fixtures.profiles.find((pr) => pr.id === USERS.bob)!.is_public = false;
+    const [after] = await cached.profiles.listAuthors([USERS.bob]);
+    expect(await viewer.canView(after)).toBe(false);
+    expect(calls.authors).toHaveLength(1);
+  });
+
+  it("serves repeated lookups from cache until the TTL expires", async () => {
+    const { cached, calls, advance } = setup(1_000);
+
+    await cached.places.listByIds(["pl_ramen"]);
+    await cached.places.listByIds(["pl_ramen"]);
+    expect(calls.places).toHaveLength(1);
+
+    advance(1_001);
+    await cached.places.listByIds(["pl_ramen"]);
+    expect(calls.places).toHaveLength(2);
+
+    expect(cached.cacheStats?.().places).toMatchObject({ hits: 1, misses: 2, batches: 2 });
+  });
+
+  it("replaces a cached row when a newer updated_at is seen", async () => {
+    const { fixtures, cached } = setup();
+
+    await cached.places.listByIds(["pl_cafe"]);
+    const cafe = fixtures.places.find((pl) => pl.place_id === "pl_cafe")!;
+    cafe.name = "宮益坂カフェ 2号店";
+    cafe.updated_at = "2026-06-01T00:00:00Z";
+
+    // 検索で新しい行を見かけたらキャッシュも差し替わる
+    await cached.places.searchByName("カフェ", { limit: 10 });
+    const [after] = await cached.places.listByIds(["pl_cafe"]);
+    expect(after.name).toBe("宮益坂カフェ 2号店");
+    expect(cached.cacheStats?.().places.invalidations).toBe(1);
+  });
+
+  it("drops a cached profile when a newer summary is seen", async () => {
+    const { fixtures, cached, calls } = setup();
+
+    await cached.profiles.listAuthors([USERS.bob]);
+    const bob = fixtures.profiles.find((p) => p.id === USERS.bob)!;
+    bob.bio = "ラーメン巡り";
+    bob.updated_at = "2026-06-01T00:00:00Z";
+
+    await cached.profiles.search("username", "bob", { limit: 10 });
+    const [after] = await cached.profiles.listAuthors([USERS.bob]);
+    expect(after.bio).toBe("ラーメン巡り");
+    expect(calls.authors).toHaveLength(2);
+  });
+
+  it("does not cache when the TTL is 0", async () => {
+    const { cached, calls } = setup(0);
+
+    await cached.places.listByIds(["pl_ramen"]);
+    await cached.places.listByIds(["pl_ramen"]);
+    expect(calls.places).toHaveLength(2);
+    expect(cached.cacheStats?.().places.size).toBe(0);
+  });
+});
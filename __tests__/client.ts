@@ -0,0 +1,175 @@
+// __tests__/client.ts
+// handler を node:http に載せ、JSON-RPC を実際に投げるテスト用クライアント
+import { createHash } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { NextApiRequest, NextApiResponse } from "next";
+import exportHandler from "@/pages/api/export";
+import handler from "@/pages/api/mcp/[[...path]]";
+
+export const API_KEY = "test-api-key";
+
+// alice の API キーとして登録する
+export function apiKeysEnv(userId: string, scopes = ["read"]) {
+  const sha256 = createHash("sha256").update(API_KEY).digest("hex");
+  return JSON.stringify([{ id: "test", sha256, user_id: userId, scopes }]);
+}
+
+// Next.js の res.status / send / json だけ補う
+function asNextResponse(res: ServerResponse): NextApiResponse {
+  const r = res as unknown as NextApiResponse;
+  r.status = (code: number) => {
+    res.statusCode = code;
+    return r;
+  };
+  r.send = (body: unknown) => {
+    res.end(body);
+  };
+  r.json = (body: unknown) => {
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+  return r;
+}
+
+type RpcMessage = {
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+};
+
+export type SseEvent = { id?: string; data: RpcMessage };
+
+export type RpcResponse = {
+  status: number;
+  headers: Headers;
+  /** JSON 応答ならその本体、SSE なら最後に届いたレスポンス */
+  body: RpcMessage | null;
+  /** SSE で届いたすべてのメッセージ（通知を含む） */
+  events: SseEvent[];
+};
+
+export type RpcOptions = {
+  auth?: string | null;
+  /** Mcp-Session-Id */
+  session?: string;
+};
+
+export type TestClient = {
+  url: string;
+  rpc(method: string, params?: Record<string, unknown>, opts?: RpcOptions): Promise<RpcResponse>;
+  callTool(name: string, args?: Record<string, unknown>): Promise<Record<string, unknown>>;
+  /** initialize して Mcp-Session-Id を返す */
+  initialize(opts?: RpcOptions): Promise<string>;
+  /** GET / DELETE など body の無いリクエスト */
+  send(method: string, opts?: RpcOptions & { lastEventId?: string }): Promise<Response>;
+  /** /api/mcp 以外のルート（/api/export など）への GET */
+  get(path: string, opts?: RpcOptions): Promise<Response>;
+  close(): Promise<void>;
+};
+
+export function parseSse(text: string): SseEvent[] {
+  return text
+    .split("\n\n")
+    .map((block) => {
+      const lines = block.split("\n");
+      const data = lines.filter((l) => l.startsWith("data: ")).map((l) => l.slice(6));
+      const id = lines.find((l) => l.startsWith("id: "))?.slice(4);
+      return data.length > 0 ? { ...(id ? { id } : {}), data: JSON.parse(data.join("\n")) as RpcMessage } : null;
+    })
+    .filter((e): e is SseEvent => e !== null);
+}
+
+// 開きっぱなしの SSE（GET）から count 件読んだら切る
+export async function readEvents(res: Response, count: number): Promise<SseEvent[]> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    while (parseSse(text).length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel();
+  }
+  return parseSse(text);
+}
+
+const headersFor = (opts: RpcOptions & { lastEventId?: string }) => {
+  const auth = opts.auth === undefined ? API_KEY : opts.auth;
+  return {
+    accept: "application/json, text/event-stream",
+    ...(auth ? { authorization: `Bearer ${auth}` } : {}),
+    ...(opts.session ? { "mcp-session-id": opts.session } : {}),
+    ...(opts.lastEventId ? { "last-event-id": opts.lastEventId } : {}),
+  };
+};
+
+export async function startClient(): Promise<TestClient> {
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === "/api/export") {
+      // Next.js が付ける req.query を補う
+      const query = Object.fromEntries(url.searchParams);
+      void exportHandler(Object.assign(req, { query }) as NextApiRequest, asNextResponse(res));
+      return;
+    }
+    void handler(req as NextApiRequest, asNextResponse(res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  let nextId = 1;
+
+  const origin = `http://127.0.0.1:${port}`;
+  const url = `${origin}/api/mcp`;
+
+  const rpc: TestClient["rpc"] = async (method, params, opts = {}) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headersFor(opts) },
+      body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+    });
+    const text = await res.text();
+    if (res.headers.get("content-type")?.startsWith("text/event-stream")) {
+      const events = parseSse(text);
+      const responses = events.filter((e) => e.data.id !== undefined && e.data.method === undefined);
+      return { status: res.status, headers: res.headers, body: responses.at(-1)?.data ?? null, events };
+    }
+    return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : null, events: [] };
+  };
+
+  const initialize: TestClient["initialize"] = async (opts = {}) => {
+    const res = await rpc(
+      "initialize",
+      { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "0" } },
+      opts
+    );
+    const session = res.headers.get("mcp-session-id");
+    if (!session) throw new Error(`initialize failed: ${JSON.stringify(res.body)}`);
+    await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headersFor({ ...opts, session }) },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    });
+    return session;
+  };
+
+  const send: TestClient["send"] = (method, opts = {}) => fetch(url, { method, headers: headersFor(opts) });
+
+  const get: TestClient["get"] = (path, opts = {}) => fetch(`${origin}${path}`, { headers: headersFor(opts) });
+
+  const callTool: TestClient["callTool"] = async (name, args = {}) => {
+    const res = await rpc("tools/call", { name, arguments: args });
+    if (!res.body?.result) throw new Error(`tools/call ${name} failed: ${JSON.stringify(res.body)}`);
+    return res.body.result;
+  };
+
+  const close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+
+  return { url, rpc, callTool, initialize, send, get, close };
+}
@@ -0,0 +1,68 @@
+// __tests__/cursor.test.ts
+// keysetFilter が作る PostgREST の or フィルタを、同じ意味の小さな評価器で確かめる
+import { describe, expect, it } from "vitest";
+import { keysetFilter, type Cursor } from "@/lib/cursor";
+import { compareKeysetDesc } from "@/lib/data/ordering";
+
+type Row = { id: string; score: number | null };
+
+// "a,and(b,c),d" をトップレベルのカンマで分ける
+function splitTop(s: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "(") depth++;
+    else if (s[i] === ")") depth--;
+    else if (s[i] === "," && depth === 0) {
+      parts.push(s.slice(start, i));
+      start = i + 1;
+    }
+  }
+  return [...parts, s.slice(start)];
+}
+
+function matches(row: Row, term: string): boolean {
+  if (term.startsWith("and(")) return splitTop(term.slice(4, -1)).every((t) => matches(row, t));
+  const [col, op, ...rest] = term.split(".");
+  const v = row[col as keyof Row];
+  if (op === "is") return v === null;
+  if (v === null) return false;
+  const target = JSON.parse(rest.join("."));
+  const [a, b] = typeof v === "number" ? [v, Number(target)] : [v, target];
+  return op === "lt" ? a < b : op === "gt" ? a > b : a === b;
+}
+
+// ORDER BY score desc nulls last, id desc で limit 件ずつ辿る
+function pageAll(rows: Row[], limit: number): string[] {
+  const sorted = [...rows].sort((a, b) => compareKeysetDesc(a.score, a.id, b.score, b.id));
+  const seen: string[] = [];
+  let after: Cursor | null = null;
+  for (;;) {
+    const filter: string | null = after ? keysetFilter("score", "id", after) : null;
+    const page: Row[] = sorted.filter((r) => !filter || splitTop(filter).some((t) => matches(r, t))).slice(0, limit);
+    seen.push(...page.map((r) => r.id));
+    if (page.length < limit) return seen;
+    const last = page[page.length - 1];
+    after = { k: last.score, i: last.id };
+  }
+}
+
+describe("keysetFilter", () => {
+  const rows: Row[] = [
+    { id: "p1", score: 5 },
+    { id: "p2", score: 3 },
+    { id: "p3", score: 3 },
+    { id: "p4", score: null },
+    { id: "p5", score: null },
+  ];
+
+  it("pages past the last non-null key into rows without a sort key", () => {
+    expect(pageAll(rows, 2)).toEqual(["p1", "p3", "p2", "p5", "p4"]);
+    expect(pageAll(rows, 3)).toEqual(["p1", "p3", "p2", "p5", "p4"]);
+  });
+
+  it("continues among null keys by id", () => {
+    expect(keysetFilter("score", "id", { k: null, i: "p5" })).toBe('and(score.is.null,id.lt."p5")');
+  });
+});
@@ -0,0 +1,134 @@
+// __tests__/export.test.ts
+// export ツールと /api/export（CSV / GeoJSON / KML）
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createCachedStore, createMemoryStore, setDataStore, type Fixtures } from "@/lib/data";
+import { setLogSink } from "@/lib/log";
+import { createRateLimiter, setRateLimiter } from "@/lib/rateLimit";
+import { apiKeysEnv, startClient, type TestClient } from "./client";
+import { USERS, buildFixtures, post } from "./fixtures";
+
+type Exported = {
+  mime_type: string;
+  row_count: number;
+  skipped_count: number;
+  truncated: boolean;
+  download_path: string;
+  data: string;
+};
+
+let client: TestClient;
+let fixtures: Required<Fixtures>;
+
+beforeAll(async () => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  process.env.MCP_API_KEYS = apiKeysEnv(USERS.alice);
+  setLogSink(() => {});
+  client = await startClient();
+});
+
+afterAll(async () => {
+  await client.close();
+  setDataStore(null);
+  setRateLimiter(null);
+  setLogSink(null);
+});
+
+beforeEach(() => {
+  fixtures = buildFixtures();
+  setDataStore(createCachedStore(createMemoryStore(fixtures)));
+  setRateLimiter(createRateLimiter());
+});
+
+const exportTool = async (args: Record<string, unknown>) =>
+  (await client.callTool("export", args)).structuredContent as Exported;
+
+const csvLines = (csv: string) => csv.replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+
+describe("export tool", () => {
+  it("writes a user's posts as CSV with escaped cells", async () => {
+    fixtures.posts.push(
+      post({ id: "post-6", user_id: USERS.bob, created_at: "2026-03-06T12:00:00Z", content: '=1+1, "quoted"' })
+    );
+
+    const result = await exportTool({ format: "csv", user_id: USERS.bob });
+    expect(result).toMatchObject({ mime_type: "text/csv; charset=utf-8", row_count: 3, truncated: false });
+
+    const lines = csvLines(result.data);
+    expect(lines[0]).toMatch(/^post_id,created_at,user_id,username,place_id,/);
+    expect(lines.slice(1).map((l) => l.split(",")[0])).toEqual(["post-6", "post-5", "post-1"]);
+    expect(lines[1].endsWith(`"'=1+1, ""quoted"""`)).toBe(true);
+    expect(lines[3]).toContain("ramen|noodles");
+  });
+
+  it("writes located posts as a GeoJSON FeatureCollection", async () => {
+    // 店の無い投稿は位置が無いので書けない
+    fixtures.posts.push(
+      post({ id: "post-6", user_id: USERS.alice, created_at: "2026-03-06T12:00:00Z", recommend_score: 5 })
+    );
+
+    const result = await exportTool({ format: "geojson", min_recommend_score: 4 });
+    expect(result).toMatchObject({ row_count: 3, skipped_count: 1 });
+
+    const geojson = JSON.parse(result.data);
+    expect(geojson.type).toBe("FeatureCollection");
+    // dave（非公開・未フォロー）の投稿は入らない
+    expect(geojson.features.map((f: { id: string }) => f.id)).toEqual(["post-5", "post-2", "post-1"]);
+    expect(geojson.features[0]).toMatchObject({
+      geometry: { type: "Point", coordinates: [135.5013, 34.6659] },
+      properties: { post_id: "post-5", username: "bob", place_name: "難波お好み焼き", recommend_score: 5 },
+    });
+  });
+
+  it("truncates at the limit and points to the download route", async () => {
+    const result = await exportTool({ format: "kml", place_id: "pl_ramen", limit: 1 });
+    expect(result).toMatchObject({ row_count: 1, truncated: true });
+    expect(result.data).toContain('<Placemark id="post-4">');
+    expect(result.download_path).toBe("/api/export?format=kml&place_id=pl_ramen");
+  });
+});
+
+describe("/api/export", () => {
+  it("streams more rows than the tool limit", async () => {
+    for (let i = 0; i < 30; i++) {
+      const created_at = `2026-04-01T00:${String(i).padStart(2, "0")}:00Z`;
+      fixtures.posts.push(post({ id: `bulk-${i}`, user_id: USERS.alice, created_at, place_id: "pl_cafe" }));
+    }
+
+    const res = await client.get(`/api/export?format=csv&user_id=${USERS.alice}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-disposition")).toBe('attachment; filename="gourmeet-export.csv"');
+    expect(csvLines(await res.text())).toHaveLength(1 + 31);
+  });
+
+  it("writes KML placemarks", async () => {
+    const res = await client.get("/api/export?format=kml&genre_tags=ramen");
+    expect(res.headers.get("content-type")).toBe("application/vnd.google-earth.kml+xml");
+    const kml = await res.text();
+    expect(kml.match(/<Placemark /g)).toHaveLength(2);
+    expect(kml).toContain("<coordinates>139.7005,35.6585</coordinates>");
+    expect(kml.trimEnd().endsWith("</kml>")).toBe(true);
+  });
+
+  it("requires a token", async () => {
+    const missing = await client.get("/api/export?format=csv", { auth: null });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toMatch(/^Bearer realm=/);
+    expect((await missing.json()).error.code).toBe("UNAUTHENTICATED");
+
+    const invalid = await client.get("/api/export?format=csv", { auth: "not-a-key" });
+    expect(invalid.status).toBe(401);
+    expect(invalid.headers.get("www-authenticate")).toContain('error="invalid_token"');
+    expect(await invalid.json()).toMatchObject({ error: { code: "UNAUTHENTICATED" } });
+  });
+
+  it("rejects bad input and private accounts", async () => {
+    const bad = await client.get("/api/export?format=xlsx");
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error.code).toBe("INVALID_ARGUMENT");
+
+    const hidden = await client.get(`/api/export?format=csv&user_id=${USERS.dave}`);
+    expect(hidden.status).toBe(403);
+  });
+});
@@ -0,0 +1,169 @@
+// __tests__/fixtures.ts
+// インメモリストア用のデータ。alice が viewer（API キーの持ち主）
+import type { Fixtures } from "@/lib/data";
+import type { FollowRow, PlaceDetail, PostRow, ProfileDetail } from "@/lib/schemas";
+
+export const USERS = {
+  alice: "00000000-0000-0000-0000-00000000000a",
+  bob: "00000000-0000-0000-0000-00000000000b",
+  carol: "00000000-0000-0000-0000-00000000000c", // 非公開・alice がフォロー中
+  dave: "00000000-0000-0000-0000-00000000000d", // 非公開・誰もフォローしていない
+};
+
+// 渋谷駅あたり
+export const SHIBUYA = { lat: 35.658, lng: 139.7016 };
+
+export function profile(over: Partial<ProfileDetail> & Pick<ProfileDetail, "id" | "username">): ProfileDetail {
+  return {
+    display_name: over.username,
+    avatar_url: null,
+    updated_at: "2026-01-01T00:00:00Z",
+    username_ci: over.username?.toLowerCase() ?? null,
+    username_updated_at: null,
+    bio: null,
+    is_public: true,
+    header_image_url: null,
+    ...over,
+  };
+}
+
+export function place(over: Partial<PlaceDetail> & Pick<PlaceDetail, "place_id" | "name">): PlaceDetail {
+  return {
+    address: null,
+    lat: null,
+    lng: null,
+    photo_url: null,
+    primary_genre: null,
+    genre_tags: null,
+    primary_type: null,
+    updated_at: "2026-01-01T00:00:00Z",
+    place_types: null,
+    types_fetched_at: null,
+    genre_source: null,
+    genre_confidence: null,
+    genre_updated_at: null,
+    ...over,
+  };
+}
+
+export function post(over: Partial<PostRow> & Pick<PostRow, "id" | "user_id" | "created_at">): PostRow {
+  return {
+    content: null,
+    image_urls: null,
+    place_name: null,
+    place_address: null,
+    place_id: null,
+    image_variants: null,
+    recommend_score: null,
+    price_yen: null,
+    price_range: null,
+    ...over,
+  };
+}
+
+export function follow(follower_id: string, followee_id: string, created_at: string, status = "accepted"): FollowRow {
+  return { follower_id, followee_id, status, created_at, request_read: null };
+}
+
+export function buildFixtures(): Required<Fixtures> {
+  return {
+    profiles: [
+      profile({ id: USERS.alice, username: "alice" }),
+      profile({ id: USERS.bob, username: "bob", display_name: "Bob Tanaka" }),
+      profile({ id: USERS.carol, username: "carol", is_public: false }),
+      profile({ id: USERS.dave, username: "dave", is_public: false }),
+    ],
+    places: [
+      place({
+        place_id: "pl_ramen",
+        name: "渋谷ラーメン",
+        address: "東京都渋谷区道玄坂1-1",
+        lat: 35.6585,
+        lng: 139.7005,
+        primary_genre: "ramen",
+        genre_tags: ["ramen", "noodles"],
+      }),
+      place({
+        place_id: "pl_cafe",
+        name: "宮益坂カフェ",
+        address: "東京都渋谷区渋谷1-2",
+        lat: 35.6595,
+        lng: 139.7035,
+        primary_genre: "cafe",
+        genre_tags: ["cafe"],
+      }),
+      place({
+        place_id: "pl_osaka",
+        name: "難波お好み焼き",
+        address: "大阪府大阪市中央区難波",
+        lat: 34.6659,
+        lng: 135.5013,
+        primary_genre: "okonomiyaki",
+        genre_tags: ["okonomiyaki"],
+      }),
+    ],
+    follows: [
+      follow(USERS.alice, USERS.bob, "2026-01-02T00:00:00Z"),
+      follow(USERS.alice, USERS.carol, "2026-01-03T00:00:00Z"),
+      follow(USERS.bob, USERS.alice, "2026-01-04T00:00:00Z"),
+      follow(USERS.bob, USERS.dave, "2026-01-05T00:00:00Z", "pending"),
+    ],
+    posts: [
+      post({
+        id: "post-1",
+        user_id: USERS.bob,
+        created_at: "2026-03-01T12:00:00Z",
+        content: "濃厚なとんこつらーめん。替え玉必須",
+        place_id: "pl_ramen",
+        place_name: "渋谷ラーメン",
+        recommend_score: 4.5,
+        price_yen: 1100,
+        price_range: "1000-2000",
+      }),
+      post({
+        id: "post-2",
+        user_id: USERS.carol,
+        created_at: "2026-03-02T12:00:00Z",
+        content: "静かで作業しやすいカフェ",
+        place_id: "pl_cafe",
+        place_name: "宮益坂カフェ",
+        recommend_score: 4,
+        price_yen: 700,
+        price_range: "0-1000",
+      }),
+      post({
+        id: "post-3",
+        user_id: USERS.dave,
+        created_at: "2026-03-03T12:00:00Z",
+        content: "非公開アカウントのラーメン投稿",
+        place_id: "pl_ramen",
+        place_name: "渋谷ラーメン",
+        recommend_score: 2,
+        price_yen: 1000,
+        price_range: "1000-2000",
+      }),
+      post({
+        id: "post-4",
+        user_id: USERS.alice,
+        created_at: "2026-03-04T12:00:00Z",
+        content: "スープが軽めで飲み干せる",
+        place_id: "pl_ramen",
+        place_name: "渋谷ラーメン",
+        recommend_score: 3.5,
+        price_yen: 950,
+        price_range: "0-1000",
+      }),
+      post({
+        id: "post-5",
+        user_id: USERS.bob,
+        created_at: "2026-03-05T12:00:00Z",
+        content: "お好み焼きは豚玉",
+        place_id: "pl_osaka",
+        place_name: "難波お好み焼き",
+        recommend_score: 5,
+        price_yen: 1200,
+        price_range: "1000-2000",
+      }),
+    ],
+  };
+}
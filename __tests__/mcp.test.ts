@@ -0,0 +1,790 @@
+// __tests__/mcp.test.ts
+// MCP エンドポイントを JSON-RPC で叩く（データはインメモリストア）
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCachedStore,
+  createMemoryStore,
+  createTracedStore,
+  setDataStore,
+  type DataStore,
+  type Fixtures,
+} from "@/lib/data";
+import { getImageFetcher, setImageFetcher } from "@/lib/images";
+import { setLogSink } from "@/lib/log";
+import { registry } from "@/lib/metrics";
+import { createRateLimiter, setRateLimiter } from "@/lib/rateLimit";
+import { apiKeysEnv, startClient, type TestClient } from "./client";
+import { SHIBUYA, USERS, buildFixtures, follow, place, post, profile } from "./fixtures";
+
+type Page = { data: { id: string }[]; next_cursor: string | null };
+
+let client: TestClient;
+let fixtures: Required<Fixtures>;
+
+beforeAll(async () => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  process.env.MCP_API_KEYS = apiKeysEnv(USERS.alice);
+  setLogSink(() => {});
+  client = await startClient();
+});
+
+afterAll(async () => {
+  await client.close();
+  setDataStore(null);
+  setRateLimiter(null);
+  setLogSink(null);
+});
+
+beforeEach(() => {
+  // 本番と同じくキャッシュ層とトレースを挟む
+  fixtures = buildFixtures();
+  setDataStore(createCachedStore(createTracedStore(createMemoryStore(fixtures))));
+  setRateLimiter(createRateLimiter());
+});
+
+const structured = async <T,>(name: string, args: Record<string, unknown> = {}) =>
+  (await client.callTool(name, args)).structuredContent as T;
+
+describe("auth", () => {
+  it("rejects tool calls without a token", async () => {
+    const res = await client.rpc("tools/call", { name: "posts.recent", arguments: {} }, { auth: null });
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toMatch(/^Bearer realm="gourmeet-mcp"/);
+    expect(res.body?.error?.code).toBe(-32001);
+  });
+
+  it("rejects an unknown token", async () => {
+    const res = await client.rpc("tools/list", {}, { auth: "wrong-key" });
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toContain('error="invalid_token"');
+  });
+
+  it("requires a token to list tools", async () => {
+    expect((await client.rpc("tools/list", {}, { auth: null })).status).toBe(401);
+  });
+
+  it("requires a token for debug.cache", async () => {
+    const res = await client.rpc("tools/call", { name: "debug.cache", arguments: {} }, { auth: null });
+    expect(res.status).toBe(401);
+  });
+
+  it("allows ping without a token", async () => {
+    const res = await client.rpc("tools/call", { name: "ping", arguments: {} }, { auth: null });
+    expect(res.status).toBe(200);
+    expect(res.body?.result?.structuredContent).toEqual({ ok: true });
+  });
+});
+
+describe("posts", () => {
+  it("hides private authors the viewer does not follow", async () => {
+    const { data } = await structured<Page>("posts.recent");
+    expect(data.map((p) => p.id)).toEqual(["post-5", "post-4", "post-2", "post-1"]);
+  });
+
+  it("pages with an opaque cursor", async () => {
+    const first = await structured<Page>("posts.recent", { limit: 2 });
+    expect(first.data.map((p) => p.id)).toEqual(["post-5", "post-4"]);
+    expect(first.next_cursor).toEqual(expect.any(String));
+
+    const second = await structured<Page>("posts.recent", { limit: 2, cursor: first.next_cursor });
+    expect(second.data.map((p) => p.id)).toEqual(["post-2", "post-1"]);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it("rejects a malformed cursor", async () => {
+    const result = await client.callTool("posts.recent", { cursor: "not-a-cursor" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("does not reveal a hidden post by id", async () => {
+    const result = await client.callTool("posts.get", { id: "post-3" });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toEqual({ error: { code: "NOT_FOUND", message: "Post not found" } });
+  });
+
+  it("matches keywords across hiragana and katakana", async () => {
+    const { data } = await structured<Page>("posts.search", { query: "とんこつラーメン" });
+    expect(data.map((p) => p.id)).toEqual(["post-1"]);
+  });
+
+  it("sorts search results by score", async () => {
+    const { data } = await structured<Page>("posts.search", { primary_genre: "ramen", sort: "score" });
+    expect(data.map((p) => p.id)).toEqual(["post-1", "post-4"]);
+  });
+
+  it("folds genre spellings when filtering by genre", async () => {
+    const { data } = await structured<Page>("posts.search", { primary_genre: "ラーメン" });
+    expect(data.map((p) => p.id)).toEqual(["post-4", "post-1"]);
+  });
+});
+
+describe("post images", () => {
+  beforeEach(() => {
+    fixtures.posts[0].image_variants = [
+      { thumb: { url: "https://img.example/t1.jpg", w: 200, h: 150 }, full: "https://img.example/o1.jpg" },
+    ];
+    // variants の無い古い投稿
+    fixtures.posts[3].image_urls = ["https://img.example/o4.png"];
+  });
+
+  afterEach(() => setImageFetcher(null));
+
+  type Image = { url: string; width: number | null; size: string };
+
+  it("parses image_variants and picks the preferred size", async () => {
+    const get = async (id: string, image_size?: string) =>
+      (await structured<{ data: { image_variants: unknown[]; images: Image[] } }>("posts.get", { id, image_size }))
+        .data;
+
+    const post1 = await get("post-1", "thumbnail");
+    expect(post1.images).toEqual([
+      { url: "https://img.example/t1.jpg", width: 200, height: 150, mime_type: null, bytes: null, size: "thumbnail" },
+    ]);
+    // medium が無いので original
+    expect((await get("post-1")).images.map((i) => i.size)).toEqual(["original"]);
+    expect((await get("post-4", "thumbnail")).image_variants).toEqual([
+      {
+        thumbnail: null,
+        medium: null,
+        original: { url: "https://img.example/o4.png", width: null, height: null, mime_type: null, bytes: null },
+      },
+    ]);
+  });
+
+  it("embeds thumbnails up to the payload cap and links the rest", async () => {
+    // 300 バイトの画像。base64 で 400 バイトなので 2 枚目は入りきらない
+    setImageFetcher(async (_url, maxBytes) =>
+      maxBytes >= 300 ? { data: Buffer.alloc(300), mimeType: "image/png" } : null
+    );
+
+    const result = await client.callTool("posts.recent", { include_images: true, max_image_bytes: 500 });
+    const blocks = (result.content as { type: string; mimeType?: string; uri?: string }[]).filter(
+      (c) => c.type === "image" || c.uri?.startsWith("https:")
+    );
+    expect(blocks).toEqual([
+      { type: "image", data: Buffer.alloc(300).toString("base64"), mimeType: "image/png" },
+      { type: "resource_link", uri: "https://img.example/t1.jpg", name: "post-1-thumbnail", mimeType: "image/jpeg" },
+    ]);
+
+    const plain = await client.callTool("posts.recent", {});
+    expect((plain.content as { type: string }[]).some((c) => c.type === "image")).toBe(false);
+  });
+
+  it("does not follow redirects and stops reading bodies past the cap", async () => {
+    vi.stubEnv("MCP_IMAGE_HOSTS", "img.example");
+    const requests: RequestInit[] = [];
+    vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+      requests.push(init);
+      if (url.endsWith("/moved.jpg")) {
+        return new Response(null, { status: 302, headers: { location: "http://169.254.169.254/" } });
+      }
+      // content-length の無い 2KB の本文
+      const body = new ReadableStream({
+        start(c) {
+          c.enqueue(new Uint8Array(1024));
+          c.enqueue(new Uint8Array(1024));
+          c.close();
+        },
+      });
+      return new Response(body, { headers: { "content-type": "image/jpeg" } });
+    });
+    try {
+      const fetchImage = getImageFetcher();
+      expect(await fetchImage("https://img.example/moved.jpg", 4096)).toBeNull();
+      expect(requests[0].redirect).toBe("manual");
+      expect(await fetchImage("https://img.example/big.jpg", 1500)).toBeNull();
+      expect((await fetchImage("https://img.example/big.jpg", 4096))?.data.length).toBe(2048);
+      expect(await fetchImage("https://other.example/a.jpg", 4096)).toBeNull();
+      expect(requests).toHaveLength(3);
+    } finally {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe("places", () => {
+  it("returns nearby places ordered by distance with visible post stats", async () => {
+    type Nearby = { truncated: boolean; data: { place_id: string; post_count: number }[] };
+    const { truncated, data } = await structured<Nearby>("places.nearby", { ...SHIBUYA, radius_m: 1000 });
+    expect(truncated).toBe(false);
+    expect(data.map((pl) => pl.place_id)).toEqual(["pl_ramen", "pl_cafe"]);
+    expect(data[0].post_count).toBe(2);
+  });
+
+  it("aggregates only posts the viewer can see", async () => {
+    const result = await structured<{ stats: { post_count: number; avg_recommend_score: number } }>("places.stats", {
+      place_id: "pl_ramen",
+    });
+    expect(result.stats.post_count).toBe(2);
+    expect(result.stats.avg_recommend_score).toBe(4);
+  });
+});
+
+describe("genres", () => {
+  beforeEach(() => {
+    // 表記の違う同じジャンルの店
+    fixtures.places[0].genre_confidence = 0.9;
+    fixtures.places.push(
+      place({
+        place_id: "pl_ramen2",
+        name: "新宿拉麺",
+        primary_genre: "拉麺",
+        genre_tags: ["ラーメン"],
+        genre_confidence: 0.4,
+      })
+    );
+    fixtures.posts.push(
+      post({
+        id: "post-6",
+        user_id: USERS.bob,
+        created_at: "2026-03-06T12:00:00Z",
+        place_id: "pl_ramen2",
+        recommend_score: 5,
+      })
+    );
+  });
+
+  type Bucket = { genre: string; place_count: number; post_count: number; aliases: string[] };
+
+  it("lists genres with aliases folded together", async () => {
+    type Genres = { truncated: boolean; primary_genres: Bucket[]; genre_tags: Bucket[] };
+    const { truncated, primary_genres, genre_tags } = await structured<Genres>("genres.list");
+    expect(truncated).toBe(false);
+    // dave（非公開）の投稿は数えない
+    expect(primary_genres[0]).toEqual({ genre: "ramen", place_count: 2, post_count: 3, aliases: ["ramen", "拉麺"] });
+    expect(genre_tags.find((b) => b.genre === "ramen")?.aliases).toEqual(["ramen", "ラーメン"]);
+  });
+
+  it("ranks places in a genre by score or post volume", async () => {
+    const ids = async (args: Record<string, unknown>) =>
+      (await structured<{ data: { place_id: string }[] }>("places.by_genre", args)).data.map((pl) => pl.place_id);
+
+    expect(await ids({ genre: "ラーメン" })).toEqual(["pl_ramen2", "pl_ramen"]);
+    expect(await ids({ genre: "らーめん", sort: "posts" })).toEqual(["pl_ramen", "pl_ramen2"]);
+    expect(await ids({ genre: "ramen", min_confidence: 0.5 })).toEqual(["pl_ramen"]);
+    expect(await ids({ genre: "noodles", match: "primary" })).toEqual([]);
+
+    const first = await structured<Page>("places.by_genre", { genre: "拉麺", limit: 1 });
+    const second = await structured<{ data: { place_id: string }[] }>("places.by_genre", {
+      genre: "拉麺",
+      cursor: first.next_cursor,
+    });
+    expect(second.data.map((pl) => pl.place_id)).toEqual(["pl_ramen"]);
+  });
+});
+
+describe("trends", () => {
+  beforeEach(() => {
+    // 3/6 にカフェの投稿が急に増えた
+    fixtures.posts.push(
+      post({ id: "post-6", user_id: USERS.bob, created_at: "2026-03-06T10:00:00Z", place_id: "pl_cafe" }),
+      post({ id: "post-7", user_id: USERS.alice, created_at: "2026-03-06T11:00:00Z", place_id: "pl_cafe" }),
+      post({ id: "post-8", user_id: USERS.bob, created_at: "2026-03-06T12:00:00Z", place_id: "pl_ramen" }),
+      post({ id: "post-9", user_id: USERS.dave, created_at: "2026-03-06T13:00:00Z", place_id: "pl_ramen" }),
+      post({ id: "post-10", user_id: USERS.bob, created_at: "2026-03-06T14:00:00Z", place_id: "pl_osaka" })
+    );
+  });
+
+  type Trending = { place: { place_id: string }; recent_post_count: number; baseline_post_count: number };
+  const trending = async (args: Record<string, unknown>) =>
+    (await structured<{ data: Trending[] }>("trends.places", { window: "24h", until: "2026-03-07T00:00:00Z", ...args }))
+      .data;
+
+  it("ranks places whose posts grew against the baseline", async () => {
+    const [cafe, ...rest] = await trending({});
+    expect(cafe).toMatchObject({ place: { place_id: "pl_cafe" }, recent_post_count: 2, baseline_post_count: 0.25 });
+    // dave（非公開）の投稿は数えないので、ラーメンは 1 件で min_posts に届かない
+    expect(rest).toEqual([]);
+
+    const ids = (await trending({ min_posts: 1 })).map((r) => r.place.place_id);
+    expect(ids).toEqual(["pl_cafe", "pl_osaka", "pl_ramen"]);
+  });
+
+  it("narrows to the viewer's network or an area", async () => {
+    const network = await trending({ scope: "network", min_posts: 1 });
+    expect(network.find((r) => r.place.place_id === "pl_cafe")?.recent_post_count).toBe(1);
+
+    const area = await trending({ min_posts: 1, ...SHIBUYA, radius_m: 1000 });
+    expect(area.map((r) => r.place.place_id)).not.toContain("pl_osaka");
+  });
+
+  it("returns post counts per bucket for a place, user or genre", async () => {
+    type Series = { total: number; truncated: boolean; series: { start: string; post_count: number }[] };
+    const range = { from: "2026-03-01T00:00:00Z", to: "2026-03-07T00:00:00Z" };
+
+    const place = await structured<Series>("trends.activity", { place_id: "pl_ramen", ...range });
+    expect(place.series.map((s) => s.post_count)).toEqual([1, 0, 0, 1, 0, 1]);
+    expect(place.series[0].start).toBe("2026-03-01T00:00:00.000Z");
+
+    const genre = await structured<Series>("trends.activity", { genre: "ラーメン", ...range });
+    expect(genre).toMatchObject({ total: place.total, truncated: false });
+
+    const weeks = await structured<Series>("trends.activity", { user_id: USERS.bob, bucket: "week", to: range.to });
+    expect(weeks.series).toHaveLength(26);
+    expect(weeks.total).toBe(5);
+
+    const hidden = await client.callTool("trends.activity", { user_id: USERS.dave });
+    expect(hidden.structuredContent).toMatchObject({ error: { code: "FORBIDDEN" } });
+  });
+});
+
+describe("follows", () => {
+  // fixtures に居ない、公開アカウント
+  const erin = "00000000-0000-0000-0000-00000000000e";
+
+  it("lists follows of a private account the viewer follows", async () => {
+    const { data } = await structured<{ data: { followee_id: string }[] }>("follows.following", {
+      user_id: USERS.alice,
+    });
+    expect(data.map((r) => r.followee_id)).toEqual([USERS.carol, USERS.bob]);
+  });
+
+  it("restricts follows of a private account the viewer does not follow", async () => {
+    const result = await structured<{ restricted?: boolean }>("follows.followers", { user_id: USERS.dave });
+    expect(result.restricted).toBe(true);
+  });
+
+  it("lists pending requests with unread counts", async () => {
+    fixtures.profiles.push(profile({ id: erin, username: "erin" }));
+    fixtures.follows.push(
+      follow(USERS.dave, USERS.alice, "2026-02-01T00:00:00Z", "pending"),
+      { ...follow(erin, USERS.alice, "2026-02-02T00:00:00Z", "pending"), request_read: true }
+    );
+
+    type Requests = { total: number; unread_count: number; data: { follower_id: string; follower: unknown }[] };
+    const incoming = await structured<Requests>("follows.requests", {});
+    expect(incoming).toMatchObject({ total: 2, unread_count: 1 });
+    expect(incoming.data.map((r) => r.follower_id)).toEqual([erin, USERS.dave]);
+    expect(incoming.data[1].follower).toMatchObject({ username: "dave" });
+
+    const outgoing = await structured<Requests>("follows.requests", { direction: "outgoing" });
+    expect(outgoing).toMatchObject({ total: 0, unread_count: 0, data: [] });
+  });
+
+  it("reports mutual follows and shared connections", async () => {
+    fixtures.follows.push(follow(USERS.bob, USERS.carol, "2026-02-01T00:00:00Z"));
+    const result = await structured<Record<string, unknown>>("follows.mutuals", { other_user_id: USERS.bob });
+    expect(result).toMatchObject({ follows_other: true, followed_by_other: true, mutual: true });
+    expect(result.common_following).toEqual([expect.objectContaining({ username: "carol" })]);
+    expect(result.common_followers_count).toBe(0);
+
+    const hidden = await structured<{ restricted?: boolean }>("follows.mutuals", { other_user_id: USERS.dave });
+    expect(hidden.restricted).toBe(true);
+  });
+
+  it("suggests friends of friends and people who post at the same places", async () => {
+    fixtures.profiles.push(profile({ id: erin, username: "erin" }));
+    fixtures.follows.push(
+      follow(USERS.carol, USERS.dave, "2026-02-01T00:00:00Z"),
+      follow(USERS.carol, erin, "2026-02-02T00:00:00Z"),
+      follow(USERS.bob, erin, "2026-02-03T00:00:00Z")
+    );
+    fixtures.posts.push(post({ id: "post-6", user_id: erin, created_at: "2026-03-06T12:00:00Z", place_id: "pl_ramen" }));
+
+    type Suggestions = { data: { profile: { username: string }; score: number; reasons: string[] }[] };
+    const { data } = await structured<Suggestions>("follows.suggestions", {});
+    expect(data.map((s) => [s.profile.username, s.score])).toEqual([
+      ["erin", 2.5],
+      ["dave", 1],
+    ]);
+    expect(data[0].reasons).toEqual([
+      "Followed by 2 people you follow",
+      "Posted about 1 place you also posted about",
+    ]);
+
+    // 他人の候補では、理由はその人を主語にする
+    const forBob = await structured<Suggestions>("follows.suggestions", { user_id: USERS.bob });
+    expect(forBob.data.map((s) => [s.profile.username, s.reasons])).toEqual([
+      ["carol", ["Followed by 1 person @bob follows"]],
+    ]);
+  });
+});
+
+describe("profiles.taste", () => {
+  type Taste = {
+    post_count: number;
+    genres: { primary_genres: { genre: string; share: number }[] };
+    price: { median_price_yen: number | null };
+    scores: { compared_place_count: number; avg_difference: number | null; tendency: string | null };
+    areas: { label: string | null; place_count: number }[];
+    favorites: { place: { place_id: string } | null }[];
+    timeline: { period: string; post_count: number }[];
+  };
+
+  it("summarizes genres, prices, scores, areas and history", async () => {
+    fixtures.posts.push(
+      post({
+        id: "post-6",
+        user_id: USERS.alice,
+        created_at: "2026-04-01T12:00:00Z",
+        place_id: "pl_cafe",
+        recommend_score: 4.5,
+        price_yen: 800,
+      })
+    );
+
+    const taste = await structured<Taste>("profiles.taste", {});
+    expect(taste.post_count).toBe(2);
+    expect(taste.genres.primary_genres).toEqual([
+      { genre: "cafe", post_count: 1, share: 0.5 },
+      { genre: "ramen", post_count: 1, share: 0.5 },
+    ]);
+    expect(taste.price.median_price_yen).toBe(875);
+    // ラーメンは bob (4.5) より低く、カフェは carol (4) より高い
+    expect(taste.scores).toMatchObject({ compared_place_count: 2, avg_difference: -0.25, tendency: "lower" });
+    expect(taste.areas).toEqual([expect.objectContaining({ label: "東京都渋谷区", place_count: 2 })]);
+    expect(taste.favorites.map((f) => f.place?.place_id)).toEqual(["pl_cafe", "pl_ramen"]);
+    expect(taste.timeline.map((t) => [t.period, t.post_count])).toEqual([
+      ["2026-03", 1],
+      ["2026-04", 1],
+    ]);
+  });
+
+  it("follows the privacy rules of the posts tools", async () => {
+    const result = await client.callTool("profiles.taste", { user_id: USERS.dave });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("recommend.for_user", () => {
+  type Recs = { data: { place: { place_id: string }; reasons: string[] }[] };
+  const recommend = async (args: Record<string, unknown>) =>
+    (await structured<Recs>("recommend.for_user", args)).data;
+  const ids = (recs: Recs["data"]) => recs.map((r) => r.place.place_id);
+
+  it("ranks places followees rated and skips places the user already posted", async () => {
+    const recs = await recommend({});
+    // pl_ramen は alice 自身が投稿済み。bob の 5 点が carol の 4 点より上
+    expect(ids(recs)).toEqual(["pl_osaka", "pl_cafe"]);
+    expect(recs[0].reasons[0]).toBe("1 person you follow rated 4+");
+  });
+
+  it("applies price and location constraints", async () => {
+    expect(ids(await recommend({ price_yen_max: 1000 }))).toEqual(["pl_cafe"]);
+    expect(ids(await recommend({ price_range: ["1000-2000"] }))).toEqual(["pl_osaka"]);
+    expect(ids(await recommend({ ...SHIBUYA, radius_m: 1000 }))).toEqual(["pl_cafe"]);
+  });
+
+  it("words reasons from another user's point of view", async () => {
+    fixtures.posts.push(
+      post({
+        id: "post-6",
+        user_id: USERS.alice,
+        created_at: "2026-03-06T12:00:00Z",
+        place_id: "pl_cafe",
+        recommend_score: 4,
+      })
+    );
+    const recs = await recommend({ user_id: USERS.bob });
+    expect(ids(recs)).toEqual(["pl_cafe"]);
+    expect(recs[0].reasons[0]).toBe("1 person @bob follows rated 4+");
+  });
+});
+
+describe("errors", () => {
+  const errorOf = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool(name, args);
+    expect(result.isError).toBe(true);
+    return (result.structuredContent as { error: { code: string; message: string } }).error;
+  };
+
+  it("returns NOT_FOUND for an unknown place", async () => {
+    expect(await errorOf("places.get", { place_id: "nope" })).toEqual({ code: "NOT_FOUND", message: "Place not found" });
+  });
+
+  it("returns INVALID_ARGUMENT for half a coordinate", async () => {
+    expect((await errorOf("recommend.for_user", { lat: 35.6 })).code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("returns FORBIDDEN for another user's private account", async () => {
+    expect((await errorOf("recommend.for_user", { user_id: USERS.dave })).code).toBe("FORBIDDEN");
+  });
+
+  it("maps PostgREST failures and hides their details", async () => {
+    const failing = (code: string): DataStore => {
+      const inner = createMemoryStore(buildFixtures());
+      const fail = async () => {
+        throw { code, message: 'relation "secret_table" does not exist', details: null, hint: null };
+      };
+      return { ...inner, places: { ...inner.places, getDetail: fail } };
+    };
+
+    setDataStore(failing("42P01"));
+    const internal = await errorOf("places.get", { place_id: "pl_ramen" });
+    expect(internal).toEqual({ code: "INTERNAL", message: "Internal error" });
+
+    setDataStore(failing("57014"));
+    expect((await errorOf("places.get", { place_id: "pl_ramen" })).code).toBe("UPSTREAM_UNAVAILABLE");
+
+    setDataStore(failing("22P02"));
+    expect((await errorOf("places.get", { place_id: "pl_ramen" })).code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("returns UPSTREAM_UNAVAILABLE when Supabase is not configured", async () => {
+    setDataStore(null);
+    expect(await errorOf("posts.recent", {})).toEqual({
+      code: "UPSTREAM_UNAVAILABLE",
+      message: "The data store is not configured",
+    });
+  });
+});
+
+describe("feed.home", () => {
+  type Feed = {
+    data: { id: string; score: number | null; reasons: string[] }[];
+    next_cursor: string | null;
+    truncated: boolean;
+  };
+  const feed = (args: Record<string, unknown>) => structured<Feed>("feed.home", { user_id: USERS.alice, ...args });
+  const ids = (f: Feed) => f.data.map((p) => p.id);
+
+  it("lists followed and own posts newest first with reasons", async () => {
+    const f = await feed({});
+    expect(ids(f)).toEqual(["post-5", "post-4", "post-2", "post-1"]);
+    expect(f.data[0].score).toBeNull();
+    expect(f.data[0].reasons).toEqual(["Posted by @bob, whom the feed owner follows"]);
+    expect(f.data[1].reasons).toEqual(["Posted by the feed owner"]);
+  });
+
+  it("only returns posts after since", async () => {
+    const f = await feed({ since: "2026-03-03T00:00:00Z" });
+    expect(ids(f)).toEqual(["post-5", "post-4"]);
+    expect(f.data[0].reasons).toContain("New since 2026-03-03T00:00:00Z");
+  });
+
+  it("weights top by score and recency", async () => {
+    const f = await feed({ mode: "top" });
+    expect(ids(f)).toEqual(["post-5", "post-4", "post-1", "post-2"]);
+    expect(f.truncated).toBe(false);
+    expect(f.data[0]).toMatchObject({ score: 1 });
+    expect(f.data[0].reasons).toContain("Rated 5/5");
+  });
+
+  it("spreads discover across authors and genres", async () => {
+    const f = await feed({ mode: "discover" });
+    // bob のラーメン（post-1）は、bob もラーメンも既に出ているので後ろに回る
+    expect(ids(f)).toEqual(["post-5", "post-4", "post-2", "post-1"]);
+    expect(f.data[2].reasons).toEqual(
+      expect.arrayContaining(["First post from this author in the feed", "Adds variety: cafe"])
+    );
+  });
+
+  it("pages through a ranked feed without repeats", async () => {
+    const first = await feed({ mode: "top", limit: 2 });
+    expect(first.next_cursor).not.toBeNull();
+    const second = await feed({ mode: "top", limit: 2, cursor: first.next_cursor });
+    expect([...ids(first), ...ids(second)]).toEqual(["post-5", "post-4", "post-1", "post-2"]);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it("flags a ranked feed whose candidates hit the cap", async () => {
+    for (let i = 0; i < 500; i++) {
+      fixtures.posts.push(post({ id: `bulk-${i}`, user_id: USERS.bob, created_at: "2026-02-01T00:00:00Z" }));
+    }
+    expect((await feed({ mode: "top" })).truncated).toBe(true);
+    expect((await feed({})).truncated).toBe(false);
+  });
+
+  it("hides a private, unfollowed user's feed", async () => {
+    fixtures.follows.push(follow(USERS.dave, USERS.bob, "2026-02-01T00:00:00Z"));
+    type Restricted = Feed & { restricted?: boolean };
+    const hidden = await structured<Restricted>("feed.home", { user_id: USERS.dave });
+    expect(hidden).toMatchObject({ data: [], next_cursor: null, restricted: true });
+
+    // フォロー中の非公開アカウント（carol）のフィードは見える
+    const followed = await structured<Restricted>("feed.home", { user_id: USERS.carol });
+    expect(followed.restricted).toBeUndefined();
+  });
+});
+
+describe("rate limit", () => {
+  beforeEach(() => {
+    setRateLimiter(createRateLimiter({ policy: { capacity: 5, refillPerSec: 1 } }));
+  });
+
+  it("returns RATE_LIMITED with retry_after_s once the bucket is empty", async () => {
+    expect((await client.callTool("feed.home", { user_id: USERS.alice })).isError).toBeUndefined();
+
+    const res = await client.rpc("tools/call", { name: "feed.home", arguments: { user_id: USERS.alice } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("retry-after")).toBe("5");
+    expect(res.body?.result?.isError).toBe(true);
+    expect(res.body?.result?.structuredContent).toEqual({
+      error: { code: "RATE_LIMITED", message: "Too many requests", retry_after_s: 5 },
+    });
+  });
+
+  it("answers other methods with HTTP 429", async () => {
+    await client.callTool("feed.home", { user_id: USERS.alice });
+    const res = await client.rpc("resources/read", { uri: "gourmeet://place/pl_cafe" });
+    expect(res.status).toBe(429);
+    expect(res.body?.error).toMatchObject({ code: -32029, data: { code: "RATE_LIMITED" } });
+  });
+
+  it("does not charge free methods", async () => {
+    await client.callTool("feed.home", { user_id: USERS.alice });
+    expect((await client.rpc("tools/list")).status).toBe(200);
+    expect((await client.callTool("ping")).isError).toBeUndefined();
+  });
+});
+
+describe("observability", () => {
+  type CallLog = {
+    msg: string;
+    request_id: string;
+    tool?: string;
+    status: string;
+    duration_ms: number;
+    size_bytes: number;
+    query_count?: number;
+    spans?: { name: string; parent?: string }[];
+  };
+
+  const captureLogs = () => {
+    const lines: CallLog[] = [];
+    setLogSink((_level, line) => lines.push(JSON.parse(line)));
+    return lines;
+  };
+
+  afterAll(() => setLogSink(() => {}));
+
+  it("logs each call with the request id and traced store queries", async () => {
+    const lines = captureLogs();
+    const res = await client.rpc("tools/call", { name: "feed.home", arguments: { user_id: USERS.alice } });
+
+    const call = lines.find((l) => l.msg === "mcp.call")!;
+    expect(call).toMatchObject({ request_id: res.headers.get("x-request-id"), tool: "feed.home", status: "ok" });
+    expect(call.size_bytes).toBeGreaterThan(0);
+    expect(call.query_count).toBeGreaterThan(0);
+    expect(call.spans).toContainEqual(expect.objectContaining({ name: "db.posts.list" }));
+    expect(call.spans).toContainEqual(
+      expect.objectContaining({ name: "db.profiles.listAuthors", parent: "enrichPosts" })
+    );
+  });
+
+  it("records the error code of failed calls", async () => {
+    const lines = captureLogs();
+    await client.callTool("places.get", { place_id: "nope" });
+    expect(lines.find((l) => l.msg === "mcp.call")).toMatchObject({ tool: "places.get", status: "NOT_FOUND" });
+  });
+
+  it("counts calls per tool and status", async () => {
+    await client.callTool("posts.recent");
+    const text = registry.render();
+    expect(text).toMatch(/^mcp_rpc_calls_total\{method="tools\/call",status="ok",tool="posts.recent"\} \d+$/m);
+    expect(text).toContain('mcp_span_duration_seconds_count{span="db.posts.list"}');
+  });
+
+  it("does not label unknown tools by name", async () => {
+    await client.rpc("tools/call", { name: "no.such_tool", arguments: {} });
+    expect(registry.render()).not.toContain("no.such_tool");
+  });
+});
+
+describe("debug.cache", () => {
+  it("reports hits once enrichment repeats lookups", async () => {
+    await client.callTool("posts.recent");
+    await client.callTool("posts.recent");
+    const { caches } = await structured<{ caches: Record<string, { hits: number; misses: number }> }>("debug.cache");
+    expect(caches.profiles.misses).toBeGreaterThan(0);
+    expect(caches.profiles.hits).toBeGreaterThan(0);
+    expect(caches.places.hits).toBeGreaterThan(0);
+  });
+});
+
+describe("resources and prompts", () => {
+  it("reads a place resource", async () => {
+    const res = await client.rpc("resources/read", { uri: "gourmeet://place/pl_cafe" });
+    const contents = res.body?.result?.contents as { text: string }[];
+    expect(JSON.parse(contents[0].text).name).toBe("宮益坂カフェ");
+  });
+
+  it("treats a hidden post as not found", async () => {
+    const res = await client.rpc("resources/read", { uri: "gourmeet://post/post-3" });
+    expect(res.body?.error?.code).toBe(-32002);
+  });
+
+  it("lists resources the viewer can see", async () => {
+    const res = await client.rpc("resources/list");
+    const uris = (res.body?.result?.resources as { uri: string }[]).map((r) => r.uri);
+    expect(uris).toEqual(expect.arrayContaining(["gourmeet://place/pl_ramen", "gourmeet://post/post-5"]));
+    expect(uris).toContain("gourmeet://profile/bob");
+    // 非公開アカウントのプロフィールと、見えない投稿は並べない
+    expect(uris).not.toContain("gourmeet://profile/carol");
+    expect(uris).not.toContain("gourmeet://profile/dave");
+    expect(uris).not.toContain("gourmeet://post/post-3");
+  });
+
+  it("reads profile resources and hides private accounts the viewer does not follow", async () => {
+    const read = async (username: string) => {
+      const res = await client.rpc("resources/read", { uri: `gourmeet://profile/${username}` });
+      const contents = res.body?.result?.contents as { text: string }[] | undefined;
+      return { data: contents && JSON.parse(contents[0].text), error: res.body?.error };
+    };
+
+    expect((await read("bob")).data).toMatchObject({ data: { username: "bob" }, viewer_can_view: true });
+    // フォロー中の非公開アカウントは読め、フォローしていない非公開アカウントは無いものとして扱う
+    expect((await read("carol")).data).toMatchObject({ data: { username: "carol" } });
+    const dave = await read("dave");
+    expect(dave.data).toBeUndefined();
+    expect(dave.error?.code).toBe(-32002);
+    expect(dave.error?.message).toBe((await read("nobody")).error?.message);
+  });
+
+  it("builds the summarize_place prompt from stats", async () => {
+    const res = await client.rpc("prompts/get", { name: "summarize_place", arguments: { place_id: "pl_ramen" } });
+    const messages = res.body?.result?.messages as { content: { type: string; text?: string } }[];
+    expect(messages[0].content.text).toContain("渋谷ラーメン");
+    expect(messages.some((m) => m.content.type === "resource")).toBe(true);
+  });
+
+  type Message = { content: { type: string; text?: string; resource?: { uri: string; text: string } } };
+  const prompt = async (name: string, args: Record<string, string>) => {
+    const res = await client.rpc("prompts/get", { name, arguments: args });
+    return { messages: (res.body?.result?.messages ?? []) as Message[], error: res.body?.error };
+  };
+
+  it("builds the plan_dinner prompt from visible post stats", async () => {
+    const { messages } = await prompt("plan_dinner", { area: "渋谷区", party_size: "4", budget: "3000" });
+    expect(messages[0].content.text).toContain("エリア: 渋谷区");
+    expect(messages[0].content.text).toContain("人数: 4人");
+    type Candidate = { place_id: string; post_count: number; avg_recommend_score: number | null };
+    const candidates = JSON.parse(messages[1].content.text!.split("\n").slice(1).join("\n")) as Candidate[];
+    // dave（非公開）の投稿は数えない
+    expect(candidates.map((c) => [c.place_id, c.post_count, c.avg_recommend_score])).toEqual([
+      ["pl_ramen", 2, 4],
+      ["pl_cafe", 1, 4],
+    ]);
+
+    const nearby = await prompt("plan_dinner", { area: `${SHIBUYA.lat},${SHIBUYA.lng}`, genre: "cafe" });
+    expect(nearby.messages[1].content.text).toContain("pl_cafe");
+    expect(nearby.messages[1].content.text).not.toContain("pl_ramen");
+
+    expect((await prompt("plan_dinner", {})).error?.code).toBe(-32602);
+  });
+
+  it("builds the best_of_user prompt and hides private accounts", async () => {
+    const bob = await prompt("best_of_user", { username: "bob" });
+    expect(bob.messages[0].content.text).toContain("@bob さんの投稿からベスト10リスト");
+    expect(bob.messages[1].content.resource?.uri).toBe("gourmeet://profile/bob");
+    const best = JSON.parse(bob.messages[2].content.text!.split("\n").slice(1).join("\n")) as { id: string }[];
+    expect(best.map((p) => p.id)).toEqual(["post-5", "post-1"]);
+
+    const ramen = await prompt("best_of_user", { username: "bob", genre: "ラーメン", count: "5" });
+    expect(ramen.messages.at(-1)?.content.text).toContain("post-1");
+    expect(ramen.messages.at(-1)?.content.text).not.toContain("post-5");
+
+    const dave = await prompt("best_of_user", { username: "dave" });
+    expect(dave.messages[0].content.text).toContain("閲覧できる投稿がありません");
+    expect(dave.messages.some((m) => m.content.type === "resource")).toBe(false);
+    expect(JSON.stringify(dave.messages)).not.toContain(USERS.dave);
+
+    const unknown = await prompt("best_of_user", { username: "nobody" });
+    expect(unknown.messages[0].content.text).toContain("見つかりませんでした");
+
+    expect((await prompt("best_of_user", {})).error?.code).toBe(-32602);
+  });
+});
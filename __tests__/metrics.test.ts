@@ -0,0 +1,82 @@
+// __tests__/metrics.test.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMetricsRegistry } from "@/lib/metrics";
+import handler from "@/pages/api/metrics";
+
+describe("metrics registry", () => {
+  it("renders counters in Prometheus text format", () => {
+    const registry = createMetricsRegistry();
+    const calls = registry.counter("calls_total", "Calls");
+    calls.inc({ tool: "feed.home", status: "ok" });
+    calls.inc({ status: "ok", tool: "feed.home" }, 2);
+    calls.inc({ tool: 'say "hi"', status: "ok" });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP calls_total Calls",
+        "# TYPE calls_total counter",
+        'calls_total{status="ok",tool="feed.home"} 3',
+        'calls_total{status="ok",tool="say \\"hi\\""} 1',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+    latency.observe({ tool: "a" }, 0.05);
+    latency.observe({ tool: "a" }, 0.5);
+    latency.observe({ tool: "a" }, 3);
+
+    const lines = registry.render().split("\n");
+    expect(lines).toContain('latency_seconds_bucket{tool="a",le="0.1"} 1');
+    expect(lines).toContain('latency_seconds_bucket{tool="a",le="1"} 2');
+    expect(lines).toContain('latency_seconds_bucket{tool="a",le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum{tool="a"} 3.55');
+    expect(lines).toContain('latency_seconds_count{tool="a"} 3');
+  });
+
+  it("rejects duplicate metric names", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("x_total", "X");
+    expect(() => registry.counter("x_total", "X")).toThrow();
+  });
+});
+
+describe("/api/metrics", () => {
+  const call = (authorization?: string) => {
+    const res = {
+      statusCode: 0,
+      setHeader: () => res,
+      status: (code: number) => ((res.statusCode = code), res),
+      send: () => res,
+    };
+    handler(
+      { method: "GET", headers: authorization ? { authorization } : {} } as unknown as NextApiRequest,
+      res as unknown as NextApiResponse
+    );
+    return res.statusCode;
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("is hidden in production unless a token is configured", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("MCP_METRICS_TOKEN", "");
+    expect(call()).toBe(404);
+
+    vi.stubEnv("MCP_METRICS_TOKEN", "metrics-secret");
+    expect(call()).toBe(401);
+    expect(call("Bearer metrics-secret")).toBe(200);
+  });
+
+  it("is open outside production when no token is configured", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("MCP_METRICS_TOKEN", "");
+    expect(call()).toBe(200);
+  });
+});
@@ -0,0 +1,48 @@
+// __tests__/rateLimit.test.ts
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "@/lib/rateLimit";
+
+function setup(capacity = 10, refillPerSec = 1) {
+  const clock = { now: 0 };
+  const limiter = createRateLimiter({ policy: { capacity, refillPerSec }, now: () => clock.now });
+  return { limiter, clock };
+}
+
+describe("rate limiter", () => {
+  it("refills tokens over time and reports when to retry", async () => {
+    const { limiter, clock } = setup(10, 2);
+    expect(await limiter.take("a", 8)).toMatchObject({ allowed: true, remaining: 2 });
+
+    const denied = await limiter.take("a", 5);
+    expect(denied).toMatchObject({ allowed: false, retryAfterSec: 2 });
+
+    clock.now += 2_000;
+    expect(await limiter.take("a", 5)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it("keeps separate buckets per key", async () => {
+    const { limiter } = setup(5);
+    expect((await limiter.take("a", 5)).allowed).toBe(true);
+    expect((await limiter.take("a", 1)).allowed).toBe(false);
+    expect((await limiter.take("b", 1)).allowed).toBe(true);
+  });
+
+  it("lets a cost above capacity through on a full bucket", async () => {
+    const { limiter } = setup(5);
+    expect((await limiter.take("a", 20)).allowed).toBe(true);
+    expect((await limiter.take("a", 20)).allowed).toBe(false);
+  });
+
+  it("charges tools by weight, batches by sum and handshakes for free", () => {
+    const { limiter } = setup();
+    const call = (name: string) => ({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name } });
+
+    expect(limiter.costOf(call("recommend.for_user"))).toBe(10);
+    expect(limiter.costOf(call("posts.get"))).toBe(1);
+    expect(limiter.costOf(call("ping"))).toBe(0);
+    expect(limiter.costOf([call("feed.home"), call("places.search")])).toBe(7);
+    expect(limiter.costOf({ jsonrpc: "2.0", id: 1, method: "initialize" })).toBe(0);
+    expect(limiter.costOf({ jsonrpc: "2.0", method: "notifications/initialized" })).toBe(0);
+    expect(limiter.costOf({ jsonrpc: "2.0", id: 1, method: "resources/read" })).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+// __tests__/resolve.test.ts
+// places.resolve と、admin スコープの投稿の place_id 付け直し・places の重複レポート
+import { createHash } from "node:crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createCachedStore, createMemoryStore, setDataStore, type Fixtures } from "@/lib/data";
+import { setLogSink } from "@/lib/log";
+import { createRateLimiter, setRateLimiter } from "@/lib/rateLimit";
+import { apiKeysEnv, startClient, type TestClient } from "./client";
+import { USERS, buildFixtures, place, post } from "./fixtures";
+
+// alice の read だけのキー
+const READ_KEY = "read-only-api-key";
+
+type Candidate = { place: { place_id: string }; confidence: number; reasons: string[] };
+type Resolved = { post_id: string; place_id: string | null; applied: boolean; skipped_reason: string | null };
+
+let client: TestClient;
+let fixtures: Required<Fixtures>;
+
+beforeAll(async () => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const sha256 = createHash("sha256").update(READ_KEY).digest("hex");
+  const readOnly = { id: "read-only", sha256, user_id: USERS.alice };
+  process.env.MCP_API_KEYS = JSON.stringify([...JSON.parse(apiKeysEnv(USERS.alice, ["read", "admin"])), readOnly]);
+  setLogSink(() => {});
+  client = await startClient();
+});
+
+afterAll(async () => {
+  await client.close();
+  setDataStore(null);
+  setRateLimiter(null);
+  setLogSink(null);
+});
+
+beforeEach(() => {
+  fixtures = buildFixtures();
+  // 店の決まっていない投稿
+  fixtures.posts.push(
+    post({
+      id: "post-6",
+      user_id: USERS.alice,
+      created_at: "2026-03-06T12:00:00Z",
+      place_name: "宮益坂かふぇ",
+      place_address: "東京都渋谷区渋谷1丁目2番",
+    }),
+    post({ id: "post-7", user_id: USERS.bob, created_at: "2026-03-07T12:00:00Z", place_name: "謎の店" }),
+    post({ id: "post-8", user_id: USERS.bob, created_at: "2026-03-08T12:00:00Z", content: "店名なし" })
+  );
+  setDataStore(createCachedStore(createMemoryStore(fixtures)));
+  setRateLimiter(createRateLimiter());
+});
+
+const resolve = async (args: Record<string, unknown>) =>
+  ((await client.callTool("places.resolve", args)).structuredContent as { data: Candidate[] }).data;
+
+describe("places.resolve", () => {
+  it("absorbs kana, width and branch differences", async () => {
+    const [best] = await resolve({ name: "渋谷らーめん 本店", address: "渋谷区道玄坂1-1" });
+    expect(best).toMatchObject({ place: { place_id: "pl_ramen" }, confidence: 0.93 });
+    expect(best.reasons).toEqual(["Same name without branch", "Same address"]);
+
+    // 店名だけだと同名の別の店かもしれないので割り引く
+    const [halfWidth] = await resolve({ name: "渋谷ﾗｰﾒﾝ" });
+    expect(halfWidth).toMatchObject({ place: { place_id: "pl_ramen" }, confidence: 0.8 });
+  });
+
+  it("uses coordinates and a post's free text", async () => {
+    const [near] = await resolve({ name: "ラーメン", lat: 35.6585, lng: 139.7006 });
+    expect(near.place.place_id).toBe("pl_ramen");
+    expect(near.reasons).toContain("9 m away");
+
+    const [fromPost] = await resolve({ post_id: "post-6" });
+    expect(fromPost).toMatchObject({ place: { place_id: "pl_cafe" }, confidence: 1 });
+  });
+
+  it("rejects an empty query", async () => {
+    const result = await client.callTool("places.resolve", { post_id: "post-8" });
+    expect(result.structuredContent).toMatchObject({ error: { code: "INVALID_ARGUMENT" } });
+  });
+});
+
+describe("admin tools", () => {
+  it("are listed only for clients with the admin scope", async () => {
+    const names = async (auth?: string) => {
+      const res = await client.rpc("tools/list", {}, auth ? { auth } : {});
+      return (res.body?.result?.tools as { name: string }[]).map((t) => t.name);
+    };
+    expect(await names()).toEqual(expect.arrayContaining(["admin.resolve_posts", "admin.duplicate_places"]));
+    expect(await names(READ_KEY)).not.toContain("admin.resolve_posts");
+  });
+
+  it("previews and applies place_id for unresolved posts", async () => {
+    const run = async (apply: boolean) =>
+      (await client.callTool("admin.resolve_posts", { apply })).structuredContent as {
+        scanned: number;
+        applied: number;
+        data: Resolved[];
+      };
+
+    const preview = await run(false);
+    expect(preview.data.map((r) => [r.post_id, r.place_id, r.skipped_reason])).toEqual([
+      ["post-8", null, "no_place_name"],
+      ["post-7", null, "no_candidates"],
+      ["post-6", "pl_cafe", null],
+    ]);
+    expect(preview.applied).toBe(0);
+    expect(fixtures.posts.find((p) => p.id === "post-6")?.place_id).toBeNull();
+
+    const applied = await run(true);
+    expect(applied.applied).toBe(1);
+    expect(fixtures.posts.find((p) => p.id === "post-6")?.place_id).toBe("pl_cafe");
+    expect((await run(false)).scanned).toBe(2);
+  });
+
+  it("reports likely duplicate places but not other branches", async () => {
+    fixtures.places.push(
+      place({
+        place_id: "pl_ramen_dup",
+        name: "渋谷らーめん",
+        address: "東京都渋谷区道玄坂1丁目1",
+        lat: 35.65851,
+        lng: 139.70052,
+      }),
+      place({ place_id: "pl_sb1", name: "スターバックス 渋谷店", address: "渋谷区道玄坂2-1", lat: 35.659, lng: 139.699 }),
+      place({
+        place_id: "pl_sb2",
+        name: "スターバックス 道玄坂店",
+        address: "渋谷区道玄坂2-3",
+        lat: 35.6594,
+        lng: 139.6992,
+      })
+    );
+
+    const report = (await client.callTool("admin.duplicate_places", {})).structuredContent as {
+      pair_count: number;
+      data: { a: { place_id: string }; b: { place_id: string }; confidence: number }[];
+    };
+    expect(report.pair_count).toBe(1);
+    expect(report.data[0]).toMatchObject({
+      a: { place_id: "pl_ramen" },
+      b: { place_id: "pl_ramen_dup" },
+      confidence: 1,
+    });
+  });
+});
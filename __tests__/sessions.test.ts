@@ -0,0 +1,191 @@
+// __tests__/sessions.test.ts
+// ステートフルなセッション（SSE・再開・途中経過・購読）
+import { createHash } from "node:crypto";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createCachedStore, createMemoryStore, setDataStore, type Fixtures } from "@/lib/data";
+import { setLogSink } from "@/lib/log";
+import { createMemoryEventStore } from "@/lib/mcp/eventStore";
+import { createSessionManager, setSessionManager, type SessionManager } from "@/lib/mcp/sessions";
+import { createRateLimiter, setRateLimiter } from "@/lib/rateLimit";
+import { apiKeysEnv, readEvents, startClient, type TestClient } from "./client";
+import { USERS, buildFixtures } from "./fixtures";
+
+const OTHER_KEY = "other-api-key";
+const TTL_MS = 60_000;
+
+let client: TestClient;
+let fixtures: Fixtures;
+let sessions: SessionManager;
+const clock = { now: 0 };
+
+beforeAll(async () => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  // alice のキーに加えて、bob のキーも登録する
+  const other = { id: "other", sha256: createHash("sha256").update(OTHER_KEY).digest("hex"), user_id: USERS.bob };
+  process.env.MCP_API_KEYS = JSON.stringify([...JSON.parse(apiKeysEnv(USERS.alice)), other]);
+  setLogSink(() => {});
+  client = await startClient();
+});
+
+afterAll(async () => {
+  await client.close();
+  setDataStore(null);
+  setRateLimiter(null);
+  setSessionManager(null);
+  setLogSink(null);
+});
+
+beforeEach(() => {
+  fixtures = buildFixtures();
+  setDataStore(createCachedStore(createMemoryStore(fixtures)));
+  setRateLimiter(createRateLimiter());
+  clock.now = Date.now();
+  sessions = createSessionManager({ ttlMs: TTL_MS, now: () => clock.now, subscriptions: { pollMs: 60_000 } });
+  setSessionManager(sessions);
+});
+
+afterEach(() => sessions.closeAll());
+
+const feedHome = { name: "feed.home", arguments: { user_id: USERS.alice }, _meta: { progressToken: "feed-1" } };
+
+describe("sessions", () => {
+  it("opens a session on initialize and streams tool results over SSE", async () => {
+    const session = await client.initialize();
+    expect(sessions.size()).toBe(1);
+
+    const res = await client.rpc("tools/call", { name: "posts.recent", arguments: {} }, { session });
+    expect(res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+    expect((res.body?.result?.structuredContent as { data: unknown[] }).data.length).toBeGreaterThan(0);
+    expect(res.events.every((e) => e.id)).toBe(true);
+  });
+
+  it("keeps anonymous initialize stateless", async () => {
+    const res = await client.rpc(
+      "initialize",
+      { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "0" } },
+      { auth: null }
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("mcp-session-id")).toBeNull();
+    expect(sessions.size()).toBe(0);
+  });
+
+  it("sends progress notifications for long tools", async () => {
+    const session = await client.initialize();
+    const res = await client.rpc("tools/call", feedHome, { session });
+
+    const progress = res.events.filter((e) => e.data.method === "notifications/progress").map((e) => e.data.params);
+    expect(progress).toHaveLength(3);
+    expect(progress[2]).toMatchObject({ progressToken: "feed-1", progress: 3, total: 3 });
+    expect(res.body?.result?.isError).toBeUndefined();
+  });
+
+  it("treats unknown, expired and other clients' sessions as not found", async () => {
+    const session = await client.initialize();
+
+    expect((await client.rpc("tools/list", {}, { session: "no-such-session" })).status).toBe(404);
+    expect((await client.rpc("tools/list", {}, { session, auth: OTHER_KEY })).status).toBe(404);
+    expect((await client.rpc("tools/list", {}, { session })).status).toBe(200);
+
+    clock.now += TTL_MS + 1;
+    expect((await client.rpc("tools/list", {}, { session })).status).toBe(404);
+    expect(sessions.size()).toBe(0);
+  });
+
+  it("ends a session on DELETE", async () => {
+    const session = await client.initialize();
+    expect((await client.send("DELETE", { session })).status).toBe(200);
+    expect(sessions.size()).toBe(0);
+    expect((await client.rpc("tools/list", {}, { session })).status).toBe(404);
+  });
+
+  it("requires a session id for GET and DELETE", async () => {
+    expect((await client.send("GET")).status).toBe(400);
+    expect((await client.send("DELETE")).status).toBe(400);
+  });
+
+  it("replays missed events after Last-Event-ID", async () => {
+    const session = await client.initialize();
+    const first = await client.rpc("tools/call", feedHome, { session });
+
+    // 最初の通知だけ受け取って切れた、という想定で続きをもらう
+    const resumed = await client.send("GET", { session, lastEventId: first.events[0].id });
+    expect(resumed.status).toBe(200);
+    const replayed = await readEvents(resumed, first.events.length - 1);
+    expect(replayed).toEqual(first.events.slice(1));
+  });
+
+  it("rejects an unknown Last-Event-ID", async () => {
+    const session = await client.initialize();
+    expect((await client.send("GET", { session, lastEventId: "nope_1" })).status).toBe(400);
+  });
+
+  it("notifies subscribers when a resource changes", async () => {
+    const session = await client.initialize();
+    const uri = "gourmeet://place/pl_cafe";
+    const stream = await client.send("GET", { session });
+    expect((await client.rpc("resources/subscribe", { uri }, { session })).body?.result).toEqual({});
+
+    // 変わっていなければ通知しない
+    await sessions.publishResourceUpdated(uri);
+    const cafe = fixtures.places!.find((pl) => pl.place_id === "pl_cafe")!;
+    cafe.name = "宮益坂カフェ 本店";
+    cafe.updated_at = "2026-02-01T00:00:00Z";
+    await sessions.publishResourceUpdated(uri);
+
+    const [event] = await readEvents(stream, 1);
+    expect(event.data).toMatchObject({ method: "notifications/resources/updated", params: { uri } });
+  });
+
+  it("only accepts gourmeet:// resources for subscription", async () => {
+    const session = await client.initialize();
+    const res = await client.rpc("resources/subscribe", { uri: "https://example.com/" }, { session });
+    expect(res.body?.error?.code).toBe(-32602);
+  });
+});
+
+describe("event store", () => {
+  it("forgets events past their TTL", async () => {
+    const now = { t: 0 };
+    const store = createMemoryEventStore({ ttlMs: 1000, now: () => now.t });
+    const message = { jsonrpc: "2.0" as const, method: "notifications/progress" };
+
+    const a = await store.storeEvent("s1", message);
+    await store.storeEvent("s1", message);
+    expect(await store.getStreamIdForEventId!(a)).toBe("s1");
+
+    now.t += 2000;
+    expect(await store.getStreamIdForEventId!(a)).toBeUndefined();
+  });
+
+  it("keeps numbering a stream after its events expire", async () => {
+    const now = { t: 0 };
+    const store = createMemoryEventStore({ ttlMs: 1000, now: () => now.t });
+    const message = { jsonrpc: "2.0" as const, method: "notifications/progress" };
+
+    const first = await store.storeEvent("s1", message);
+    now.t += 2000;
+    const next = await store.storeEvent("s1", message);
+    expect(next).not.toBe(first);
+    expect(next).toBe("s1_2");
+    // 期限切れの id からは再開させない
+    await expect(store.replayEventsAfter(first, { send: async () => {} })).rejects.toThrow();
+  });
+
+  it("replays only the same stream in order", async () => {
+    const store = createMemoryEventStore();
+    const msg = (n: number) => ({ jsonrpc: "2.0" as const, method: "notifications/progress", params: { n } });
+
+    const first = await store.storeEvent("_GET_stream", msg(1));
+    await store.storeEvent("other", msg(99));
+    await store.storeEvent("_GET_stream", msg(2));
+    await store.storeEvent("_GET_stream", msg(3));
+
+    const sent: unknown[] = [];
+    const streamId = await store.replayEventsAfter(first, { send: async (_id, m) => void sent.push(m) });
+    expect(streamId).toBe("_GET_stream");
+    expect(sent).toEqual([msg(2), msg(3)]);
+  });
+});
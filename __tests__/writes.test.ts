@@ -0,0 +1,151 @@
+// __tests__/writes.test.ts
+// write スコープのクライアントだけに出る posts / follows の書き込みツール
+import { createHash } from "node:crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createCachedStore, createMemoryStore, setDataStore, type Fixtures } from "@/lib/data";
+import { setLogSink } from "@/lib/log";
+import { createRateLimiter, setRateLimiter } from "@/lib/rateLimit";
+import { apiKeysEnv, startClient, type TestClient } from "./client";
+import { USERS, buildFixtures } from "./fixtures";
+
+// alice の read だけのキー
+const READ_KEY = "read-only-api-key";
+
+type Written<T> = { dry_run: boolean; action: string; data: T | null; previous: T | null };
+type Post = {
+  id: string;
+  user_id: string;
+  place_id: string | null;
+  place_name: string | null;
+  price_yen: number | null;
+};
+type Follow = { follower_id: string; followee_id: string; status: string; request_read: boolean | null };
+
+let client: TestClient;
+let fixtures: Required<Fixtures>;
+
+beforeAll(async () => {
+  delete process.env.SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const sha256 = createHash("sha256").update(READ_KEY).digest("hex");
+  const readOnly = { id: "read-only", sha256, user_id: USERS.alice };
+  process.env.MCP_API_KEYS = JSON.stringify([...JSON.parse(apiKeysEnv(USERS.alice, ["read", "write"])), readOnly]);
+  setLogSink(() => {});
+  client = await startClient();
+});
+
+afterAll(async () => {
+  await client.close();
+  setDataStore(null);
+  setRateLimiter(null);
+  setLogSink(null);
+});
+
+beforeEach(() => {
+  fixtures = buildFixtures();
+  setDataStore(createCachedStore(createMemoryStore(fixtures)));
+  setRateLimiter(createRateLimiter());
+});
+
+const write = async <T,>(name: string, args: Record<string, unknown>) =>
+  (await client.callTool(name, args)).structuredContent as Written<T>;
+
+const errorOf = async (name: string, args: Record<string, unknown>) => {
+  const result = await client.callTool(name, args);
+  expect(result.isError).toBe(true);
+  return (result.structuredContent as { error: { code: string; message: string } }).error;
+};
+
+describe("scopes", () => {
+  it("lists write tools only for clients with the write scope", async () => {
+    const names = async (auth?: string) => {
+      const res = await client.rpc("tools/list", {}, auth ? { auth } : {});
+      return (res.body?.result?.tools as { name: string }[]).map((t) => t.name);
+    };
+
+    expect(await names()).toEqual(expect.arrayContaining(["posts.create", "follows.request"]));
+    const readOnly = await names(READ_KEY);
+    expect(readOnly).toContain("posts.search");
+    expect(readOnly).not.toContain("posts.create");
+    expect(readOnly).not.toContain("follows.remove");
+  });
+});
+
+describe("posts", () => {
+  it("previews a post on dry_run and creates it as the signed-in user", async () => {
+    const args = { content: "つけ麺も良い", place_id: "pl_ramen", recommend_score: 4, price_yen: 1000 };
+
+    const preview = await write<Post>("posts.create", { ...args, dry_run: true });
+    expect(preview).toMatchObject({ dry_run: true, action: "create", data: { user_id: USERS.alice } });
+    expect(fixtures.posts).toHaveLength(5);
+
+    const created = await write<Post>("posts.create", args);
+    expect(created.data).toMatchObject({ user_id: USERS.alice, place_id: "pl_ramen", place_name: "渋谷ラーメン" });
+    expect(fixtures.posts.map((p) => p.id)).toContain(created.data?.id);
+  });
+
+  it("validates scores, prices and places", async () => {
+    expect((await client.callTool("posts.create", { content: "x", recommend_score: 6 })).isError).toBe(true);
+    expect((await client.callTool("posts.create", { content: "x", price_range: "2000-1000" })).isError).toBe(true);
+    expect(await errorOf("posts.create", { content: "x", place_id: "nope" })).toEqual({
+      code: "INVALID_ARGUMENT",
+      message: "place_id nope does not exist",
+    });
+    // 既存の price_range（0-1000）と合わない金額
+    expect((await errorOf("posts.update", { id: "post-4", price_yen: 1500 })).code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("updates and deletes only the user's own posts", async () => {
+    const updated = await write<Post>("posts.update", { id: "post-4", price_yen: 1500, price_range: "1000-2000" });
+    expect(updated.previous?.price_yen).toBe(950);
+    expect(updated.data?.price_yen).toBe(1500);
+
+    expect((await errorOf("posts.update", { id: "post-1", content: "乗っ取り" })).code).toBe("FORBIDDEN");
+    expect((await errorOf("posts.delete", { id: "post-1" })).code).toBe("FORBIDDEN");
+    // dave（非公開・未フォロー）の投稿は、在ることも伏せる
+    expect(await errorOf("posts.update", { id: "post-3", content: "乗っ取り" })).toEqual(
+      await errorOf("posts.update", { id: "no-such-post", content: "乗っ取り" })
+    );
+    expect((await errorOf("posts.delete", { id: "post-3" })).code).toBe("NOT_FOUND");
+
+    await write("posts.delete", { id: "post-4", dry_run: true });
+    expect(fixtures.posts.some((p) => p.id === "post-4")).toBe(true);
+    const deleted = await write<Post>("posts.delete", { id: "post-4" });
+    expect(deleted).toMatchObject({ data: null, previous: { id: "post-4" } });
+    expect(fixtures.posts.some((p) => p.id === "post-4")).toBe(false);
+  });
+});
+
+describe("follows", () => {
+  it("sends a pending request to a private account", async () => {
+    const res = await write<Follow>("follows.request", { user_id: USERS.dave });
+    expect(res.data).toMatchObject({ follower_id: USERS.alice, status: "pending", request_read: false });
+
+    expect(await errorOf("follows.request", { user_id: USERS.dave })).toEqual({
+      code: "INVALID_ARGUMENT",
+      message: "A follow request is already pending",
+    });
+    expect((await errorOf("follows.request", { user_id: USERS.alice })).code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("accepts incoming requests and removes follows", async () => {
+    fixtures.follows.push({
+      follower_id: USERS.dave,
+      followee_id: USERS.alice,
+      created_at: "2026-02-01T00:00:00Z",
+      status: "pending",
+      request_read: false,
+    });
+
+    const accepted = await write<Follow>("follows.accept", { user_id: USERS.dave });
+    expect(accepted.data).toMatchObject({ status: "accepted", request_read: true });
+    expect((await errorOf("follows.accept", { user_id: USERS.dave })).code).toBe("NOT_FOUND");
+
+    await write("follows.remove", { user_id: USERS.dave, direction: "follower" });
+    await write("follows.remove", { user_id: USERS.bob });
+    expect(fixtures.follows.filter((f) => f.follower_id === USERS.dave || f.follower_id === USERS.alice)).toEqual([
+      expect.objectContaining({ followee_id: USERS.carol }),
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+// lib/auth.ts
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { log } from "@/lib/log";
+
+export const AUTH_REALM = "gourmeet-mcp";
+
+export const READ_SCOPE = "read";
+// posts / follows の書き込みツール。このスコープが無いクライアントには tools/list にも出さない
+export const WRITE_SCOPE = "write";
+// 全ユーザーの投稿の place_id 付け直しや places の重複レポートなど、運用向けのツール
+export const ADMIN_SCOPE = "admin";
+
+const DEFAULT_SCOPES = [READ_SCOPE];
+
+/**
+ * Supabase のユーザー JWT で来た場合に付与するスコープ。MCP_JWT_SCOPES（カンマ区切り）で変えられる
+ */
+function jwtScopes(): string[] {
+  const raw = process.env.MCP_JWT_SCOPES;
+  if (!raw) return DEFAULT_SCOPES;
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export const hasScope = (auth: AuthInfo | undefined, scope: string) => auth?.scopes.includes(scope) ?? false;
+
+export type IdentityKind = "jwt" | "api_key";
+
+export type Identity = {
+  userId: string;
+  kind: IdentityKind;
+  clientId: string;
+  scopes: string[];
+};
+
+type ApiKeyEntry = {
+  id: string;
+  sha256: string;
+  user_id: string;
+  scopes?: string[];
+};
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * MCP_API_KEYS: サーバー発行の API キー（平文ではなく sha256 の hex を置く）
+ *   [{"id":"ci-bot","sha256":"…","user_id":"<uuid>","scopes":["read","write"]}]
+ */
+function loadApiKeys(): ApiKeyEntry[] {
+  const raw = process.env.MCP_API_KEYS;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as ApiKeyEntry[]) : [];
+  } catch {
+    log.error("mcp.config_error", { message: "MCP_API_KEYS is not valid JSON; API keys disabled" });
+    return [];
+  }
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+function matchApiKey(token: string): Identity | null {
+  const digest = sha256(token);
+  for (const entry of loadApiKeys()) {
+    const expected = Buffer.from(entry.sha256 ?? "", "hex");
+    if (expected.length !== digest.length) continue;
+    if (!timingSafeEqual(expected, digest)) continue;
+    return {
+      userId: entry.user_id,
+      kind: "api_key",
+      clientId: `api_key:${entry.id}`,
+      scopes: entry.scopes ?? DEFAULT_SCOPES,
+    };
+  }
+  return null;
+}
+
+export function readBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const m = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return m ? m[1].trim() : null;
+}
+
+/**
+ * Authorization: Bearer <token> を検証して Identity を返す。
+ * トークンが無ければ null、あるのに不正なら AuthError。
+ */
+export async function authenticate(
+  req: IncomingMessage,
+  supabase: SupabaseClient | null
+): Promise<Identity | null> {
+  const token = readBearerToken(req);
+  if (!token) return null;
+
+  const fromKey = matchApiKey(token);
+  if (fromKey) return fromKey;
+
+  // API キーでなければ Supabase のユーザー JWT として検証
+  if (token.split(".").length !== 3) throw new AuthError("Unrecognized token");
+  if (!supabase) throw new AuthError("Token verification is unavailable");
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) throw new AuthError("Invalid or expired token");
+
+  return {
+    userId: data.user.id,
+    kind: "jwt",
+    clientId: `user:${data.user.id}`,
+    scopes: jwtScopes(),
+  };
+}
+
+export function toAuthInfo(token: string, identity: Identity): AuthInfo {
+  return {
+    token,
+    clientId: identity.clientId,
+    scopes: identity.scopes,
+    extra: { userId: identity.userId, kind: identity.kind },
+  };
+}
+
+export function wwwAuthenticate(error?: string, description?: string): string {
+  const parts = [`realm="${AUTH_REALM}"`];
+  if (error) parts.push(`error="${error}"`);
+  if (description) parts.push(`error_description="${description.replace(/"/g, "'")}"`);
+  return `Bearer ${parts.join(", ")}`;
+}
+
+/**
+ * JSON-RPC を通らない HTTP の入口の 401。WWW-Authenticate を付け、他のエラーと同じ { error: { code, message } } で返す
+ */
+export function sendUnauthorized(res: ServerResponse, e?: AuthError) {
+  res.setHeader("WWW-Authenticate", e ? wwwAuthenticate("invalid_token", e.message) : wwwAuthenticate());
+  res.statusCode = 401;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify({ error: { code: "UNAUTHENTICATED", message: e?.message ?? "Authentication required" } }));
+}
+
+type JsonRpcMessage = { method?: unknown; params?: { name?: unknown } };
+
+// 未認証でも通す JSON-RPC: ハンドシェイクと ping ツールだけ
+function isPublicMessage(msg: JsonRpcMessage): boolean {
+  if (typeof msg.method !== "string") return true; // response / 不正な形は transport に任せる
+  if (msg.method === "initialize" || msg.method === "ping") return true;
+  if (msg.method.startsWith("notifications/")) return true;
+  return msg.method === "tools/call" && msg.params?.name === "ping";
+}
+
+export function isPublicRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.every((m) => m !== null && typeof m === "object" && isPublicMessage(m as JsonRpcMessage));
+}
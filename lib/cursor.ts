@@ -0,0 +1,73 @@
+// lib/cursor.ts
+// keyset ページング用の不透明カーソル。(sort key, id) の組を base64url にして渡す
+import { z } from "zod";
+
+export type Cursor = { k: string | number | null; i: string };
+
+export class CursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "CursorError";
+  }
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.k, cursor.i]), "utf8").toString("base64url");
+}
+
+export function decodeCursor(raw: string | undefined): Cursor | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 2) throw new CursorError();
+    const [k, i] = parsed;
+    if (typeof i !== "string" || !(k === null || typeof k === "string" || typeof k === "number")) {
+      throw new CursorError();
+    }
+    return { k, i };
+  } catch {
+    throw new CursorError();
+  }
+}
+
+const isValidCursor = (raw: string | undefined) => {
+  try {
+    decodeCursor(raw);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// ツールの inputSchema 用。ここを通った値は decodeCursor で throw しない
+export const cursorInput = z
+  .string()
+  .optional()
+  .refine(isValidCursor, { message: "Invalid cursor" })
+  .describe("前のレスポンスの next_cursor");
+
+export const nextCursorOutput = z.string().nullable();
+
+const quote = (v: string | number) => `"${String(v).replace(/"/g, '\\"')}"`;
+
+/**
+ * ORDER BY sortCol dir, idCol dir の並びでカーソルより「後ろ」を取る PostgREST の or フィルタ。
+ * 同じ created_at の行があっても id で順序が決まるので、途中で行が増えても重複・欠落しない。
+ */
+export function keysetFilter(sortCol: string, idCol: string, cursor: Cursor, dir: "asc" | "desc" = "desc"): string {
+  const op = dir === "desc" ? "lt" : "gt";
+  // sort key が null の行は nullsFirst: false で末尾に並ぶので、null でないカーソルの後ろには null の行も全部入る
+  if (cursor.k === null) return `and(${sortCol}.is.null,${idCol}.${op}.${quote(cursor.i)})`;
+  const k = quote(cursor.k);
+  return `${sortCol}.${op}.${k},and(${sortCol}.eq.${k},${idCol}.${op}.${quote(cursor.i)}),${sortCol}.is.null`;
+}
+
+/**
+ * limit + 1 件取った結果から 1 ページ分と next_cursor を作る。
+ */
+export function paginate<T>(rows: T[], limit: number, keyOf: (row: T) => Cursor) {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const next_cursor = rows.length > limit && last ? encodeCursor(keyOf(last)) : null;
+  return { page, next_cursor };
+}
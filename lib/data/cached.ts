@@ -0,0 +1,84 @@
+// lib/data/cached.ts
+// profiles / places の1件引きを loader 経由にする DataStore のラッパー。
+// 投稿者（Author）と profile summary は同じキャッシュを使い、summary は Author から切り出す。is_public だけはキャッシュしない
+import { createLoader, type CacheOptions } from "@/lib/data/loader";
+import type { DataStore } from "@/lib/data/types";
+import { authorSchema, placeSummarySchema, profileSummarySchema, type Author, type PlaceSummary } from "@/lib/schemas";
+
+export function createCachedStore(inner: DataStore, options: CacheOptions = {}): DataStore {
+  const authors = createLoader<Author>({
+    batch: (ids) => inner.profiles.listAuthors(ids),
+    keyOf: (pr) => pr.id,
+    versionOf: (pr) => pr.updated_at,
+    options,
+  });
+
+  const places = createLoader<PlaceSummary>({
+    batch: (ids) => inner.places.listByIds(ids),
+    keyOf: (pl) => pl.place_id,
+    versionOf: (pl) => pl.updated_at,
+    options,
+  });
+
+  // 検索系で取れた行はそのままキャッシュに入れる（updated_at が新しければ差し替わる）
+  const primePlaces = <T extends PlaceSummary>(rows: T[]) => {
+    for (const row of rows) places.prime(placeSummarySchema.parse(row));
+    return rows;
+  };
+
+  // is_public は閲覧可否に使うのでキャッシュの値を信じず、毎回引き直して上書きする（消えた profile は落とす）
+  const withVisibility = async <T extends { id: string; is_public: boolean | null }>(rows: T[]) => {
+    if (rows.length === 0) return rows;
+    const current = new Map((await inner.profiles.visibility(rows.map((r) => r.id))).map((v) => [v.id, v.is_public]));
+    return rows.flatMap((r) => {
+      const isPublic = current.get(r.id);
+      return isPublic === undefined ? [] : [{ ...r, is_public: isPublic }];
+    });
+  };
+
+  // summary だけでは Author を作れないので、古くなっていれば捨てるだけ
+  const checkProfiles = <T extends { id: string; updated_at: string | null }>(rows: T[]) => {
+    for (const row of rows) authors.invalidateIfStale(row.id, row.updated_at);
+    return rows;
+  };
+
+  return {
+    ...inner,
+
+    places: {
+      ...inner.places,
+
+      async getDetail(placeId) {
+        const detail = await inner.places.getDetail(placeId);
+        if (detail) places.prime(placeSummarySchema.parse(detail));
+        return detail;
+      },
+
+      listByIds: (placeIds) => places.loadMany(placeIds),
+      searchByName: (query, opts) => inner.places.searchByName(query, opts).then(primePlaces),
+      searchByAddress: (area, opts) => inner.places.searchByAddress(area, opts).then(primePlaces),
+      withinBox: (box, opts) => inner.places.withinBox(box, opts).then(primePlaces),
+    },
+
+    profiles: {
+      ...inner.profiles,
+
+      async getDetail(by) {
+        const detail = await inner.profiles.getDetail(by);
+        if (detail) authors.prime(authorSchema.parse(detail));
+        return detail;
+      },
+
+      listAuthors: (ids) => authors.loadMany(ids).then(withVisibility),
+
+      async listSummaries(ids) {
+        return (await withVisibility(await authors.loadMany(ids))).map((pr) => profileSummarySchema.parse(pr));
+      },
+
+      search: (column, query, opts) => inner.profiles.search(column, query, opts).then(checkProfiles),
+      recentPublic: (limit) => inner.profiles.recentPublic(limit).then(checkProfiles),
+    },
+
+    cacheStats: () => ({ profiles: authors.stats(), places: places.stats() }),
+  };
+}
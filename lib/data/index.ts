@@ -0,0 +1,48 @@
+// lib/data/index.ts
+import { requireSupabase } from "@/lib/supabaseServer";
+import { createCachedStore } from "@/lib/data/cached";
+import { DEFAULT_MAX_ENTRIES, DEFAULT_TTL_MS, type CacheOptions } from "@/lib/data/loader";
+import { createSupabaseStore } from "@/lib/data/supabase";
+import { createTracedStore } from "@/lib/data/traced";
+import type { DataStore } from "@/lib/data/types";
+
+export type * from "@/lib/data/types";
+export { POST_SORT_COLUMN } from "@/lib/data/types";
+export { createSupabaseStore } from "@/lib/data/supabase";
+export { createMemoryStore, type Fixtures } from "@/lib/data/memory";
+export { createCachedStore } from "@/lib/data/cached";
+export { createTracedStore } from "@/lib/data/traced";
+export type { CacheOptions, CacheStats } from "@/lib/data/loader";
+
+let override: DataStore | null = null;
+let shared: DataStore | null = null;
+
+const envNumber = (name: string, fallback: number) => {
+  const v = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(v) ? v : fallback;
+};
+
+/**
+ * MCP_CACHE_TTL_MS（既定 60 秒、0 で無効）/ MCP_CACHE_MAX_ENTRIES（既定 5000）
+ */
+export function cacheOptionsFromEnv(): CacheOptions {
+  return {
+    ttlMs: envNumber("MCP_CACHE_TTL_MS", DEFAULT_TTL_MS),
+    maxEntries: envNumber("MCP_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES),
+  };
+}
+
+/**
+ * 既定は Supabase（service role）。テストではインメモリ実装などに差し替える
+ */
+export function setDataStore(store: DataStore | null) {
+  override = store;
+}
+
+// キャッシュをリクエストをまたいで使うため、Supabase 実装はプロセスで1つ。
+// トレースはキャッシュの内側に挟み、DB まで行ったクエリだけをスパンにする
+export function getDataStore(): DataStore {
+  if (override) return override;
+  shared ??= createCachedStore(createTracedStore(createSupabaseStore(requireSupabase())), cacheOptionsFromEnv());
+  return shared;
+}
@@ -0,0 +1,161 @@
+// lib/data/loader.ts
+// DataLoader 風のまとめ読み + TTL キャッシュ。同じ tick の load を1回の batch にまとめる
+
+export type CacheOptions = {
+  /** 0 以下ならキャッシュしない（まとめ読みと同時読み込みの共有だけ） */
+  ttlMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+};
+
+export type CacheStats = {
+  ttl_ms: number;
+  max_entries: number;
+  size: number;
+  hits: number;
+  misses: number;
+  /** 読み込み中の同じキーに相乗りした回数 */
+  coalesced: number;
+  batches: number;
+  loaded: number;
+  invalidations: number;
+  evictions: number;
+};
+
+export type Loader<V> = {
+  load(key: string): Promise<V | null>;
+  /** 見つかったものだけを、重複を除いた keys の順で返す */
+  loadMany(keys: string[]): Promise<V[]>;
+  /** 他のクエリで取れた行を入れる。キャッシュより updated_at が新しければ置き換える */
+  prime(value: V): void;
+  /** updated_at がキャッシュより新しい行を見かけたら、その key を捨てる */
+  invalidateIfStale(key: string, updatedAt: string | null): void;
+  clear(): void;
+  stats(): CacheStats;
+};
+
+export const DEFAULT_TTL_MS = 60_000;
+export const DEFAULT_MAX_ENTRIES = 5_000;
+
+type Entry<V> = { value: V; expiresAt: number };
+type Waiter<V> = { resolve: (v: V | null) => void; reject: (e: unknown) => void };
+
+// null（不明）は常に「新しい」とみなして入れ替える
+const isNewer = (incoming: string | null, cached: string | null) =>
+  incoming === null || cached === null || Date.parse(incoming) > Date.parse(cached);
+
+export function createLoader<V>(spec: {
+  batch: (keys: string[]) => Promise<V[]>;
+  keyOf: (value: V) => string;
+  versionOf: (value: V) => string | null;
+  options?: CacheOptions;
+}): Loader<V> {
+  const ttlMs = spec.options?.ttlMs ?? DEFAULT_TTL_MS;
+  const maxEntries = spec.options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const now = spec.options?.now ?? Date.now;
+
+  const cache = new Map<string, Entry<V>>();
+  const inflight = new Map<string, Promise<V | null>>();
+  let queue = new Map<string, Waiter<V>>();
+  let scheduled = false;
+
+  const counters = { hits: 0, misses: 0, coalesced: 0, batches: 0, loaded: 0, invalidations: 0, evictions: 0 };
+
+  const store = (value: V) => {
+    if (ttlMs <= 0) return;
+    const key = spec.keyOf(value);
+    // 挿入順 = 古い順にしておき、溢れたら先頭から捨てる
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: now() + ttlMs });
+    while (cache.size > maxEntries) {
+      cache.delete(cache.keys().next().value!);
+      counters.evictions++;
+    }
+  };
+
+  const fresh = (key: string) => {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt > now()) return entry;
+    cache.delete(key);
+    return null;
+  };
+
+  const flush = async () => {
+    scheduled = false;
+    const batch = queue;
+    queue = new Map();
+    counters.batches++;
+
+    try {
+      const rows = await spec.batch(Array.from(batch.keys()));
+      const byKey = new Map(rows.map((row) => [spec.keyOf(row), row]));
+      counters.loaded += rows.length;
+      for (const [key, waiter] of batch) {
+        const row = byKey.get(key) ?? null;
+        if (row) store(row);
+        inflight.delete(key);
+        waiter.resolve(row);
+      }
+    } catch (e) {
+      for (const [key, waiter] of batch) {
+        inflight.delete(key);
+        waiter.reject(e);
+      }
+    }
+  };
+
+  const load = (key: string): Promise<V | null> => {
+    const entry = fresh(key);
+    if (entry) {
+      counters.hits++;
+      return Promise.resolve(entry.value);
+    }
+
+    const pending = inflight.get(key);
+    if (pending) {
+      counters.coalesced++;
+      return pending;
+    }
+
+    counters.misses++;
+    const promise = new Promise<V | null>((resolve, reject) => queue.set(key, { resolve, reject }));
+    inflight.set(key, promise);
+    if (!scheduled) {
+      scheduled = true;
+      queueMicrotask(() => void flush());
+    }
+    return promise;
+  };
+
+  return {
+    load,
+
+    async loadMany(keys) {
+      const rows: (V | null)[] = await Promise.all(Array.from(new Set(keys)).map(load));
+      return rows.filter((row): row is V => row !== null);
+    },
+
+    prime(value) {
+      const entry = fresh(spec.keyOf(value));
+      if (entry && !isNewer(spec.versionOf(value), spec.versionOf(entry.value))) return;
+      if (entry) counters.invalidations++;
+      store(value);
+    },
+
+    invalidateIfStale(key, updatedAt) {
+      const entry = fresh(key);
+      if (!entry || !isNewer(updatedAt, spec.versionOf(entry.value))) return;
+      cache.delete(key);
+      counters.invalidations++;
+    },
+
+    clear() {
+      cache.clear();
+    },
+
+    stats() {
+      return { ttl_ms: ttlMs, max_entries: maxEntries, size: cache.size, ...counters };
+    },
+  };
+}
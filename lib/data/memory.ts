@@ -0,0 +1,315 @@
+// lib/data/memory.ts
+// fixtures から作るインメモリ実装。テストやオフライン開発用で、Supabase 実装と同じ並び・絞り込みを再現する
+import { splitTerms, termVariants } from "@/lib/textSearch";
+import {
+  authorSchema,
+  placeDetailSchema,
+  placeSummarySchema,
+  postRowSchema,
+  profileDetailSchema,
+  profileSummarySchema,
+  type FollowRow,
+  type PlaceDetail,
+  type PostRow,
+  type ProfileDetail,
+} from "@/lib/schemas";
+import { compareKeysetDesc } from "@/lib/data/ordering";
+import { POST_SORT_COLUMN, type Box, type DataStore, type GenreFilter, type PostVisibility } from "@/lib/data/types";
+
+export type Fixtures = {
+  places?: PlaceDetail[];
+  profiles?: ProfileDetail[];
+  follows?: FollowRow[];
+  posts?: PostRow[];
+};
+
+// ilike '%needle%' 相当
+const ilike = (hay: string | null, needle: string) =>
+  hay !== null && hay.toLowerCase().includes(needle.toLowerCase());
+
+// Supabase 実装と同じく PostgREST 形式のエラーを投げる（toToolError が INVALID_ARGUMENT にする）
+const uniqueViolation = (constraint: string) => ({
+  code: "23505",
+  message: `duplicate key value violates unique constraint "${constraint}"`,
+  details: null,
+  hint: null,
+});
+
+const time = (ts: string | null) => (ts ? Date.parse(ts) : NaN);
+
+const matchesGenre = (pl: PlaceDetail, genre: GenreFilter) =>
+  (!genre.primary_genre || (pl.primary_genre !== null && genre.primary_genre.includes(pl.primary_genre))) &&
+  (!genre.genre_tags || genre.genre_tags.length === 0 || genre.genre_tags.some((t) => pl.genre_tags?.includes(t)));
+
+const inBox = (pl: PlaceDetail, box: Box) =>
+  pl.lat !== null &&
+  pl.lng !== null &&
+  pl.lat >= box.minLat &&
+  pl.lat <= box.maxLat &&
+  pl.lng >= box.minLng &&
+  pl.lng <= box.maxLng;
+
+const byString = <T,>(key: (row: T) => string) => (a: T, b: T) =>
+  key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0;
+
+export function createMemoryStore(fixtures: Fixtures): DataStore {
+  // テスト側で fixtures を書き換えても反映されるよう、毎回参照する
+  const places = () => fixtures.places ?? [];
+  const profiles = () => fixtures.profiles ?? [];
+  const follows = () => fixtures.follows ?? [];
+  const posts = () => fixtures.posts ?? [];
+
+  // select した列だけに絞る（Supabase 実装と同じ形にする）
+  const placeSummary = (pl: PlaceDetail) => placeSummarySchema.parse(pl);
+  const profileSummary = (pr: ProfileDetail) => profileSummarySchema.parse(pr);
+  // visibleTo から見えない（非公開 & 未フォロー）投稿者
+  const hiddenAuthors = (vis: PostVisibility | undefined) =>
+    new Set(
+      vis
+        ? profiles()
+            .filter((pr) => pr.is_public === false && pr.id !== vis.viewerId && !vis.followeeIds.includes(pr.id))
+            .map((pr) => pr.id)
+        : []
+    );
+
+  return {
+    places: {
+      async getDetail(placeId) {
+        const pl = places().find((p) => p.place_id === placeId);
+        return pl ? placeDetailSchema.parse(pl) : null;
+      },
+
+      async listByIds(placeIds) {
+        const ids = new Set(placeIds);
+        return places()
+          .filter((pl) => ids.has(pl.place_id))
+          .map(placeSummary);
+      },
+
+      async searchByName(query, { afterPlaceId, limit }) {
+        return places()
+          .filter((pl) => ilike(pl.name, query) && (!afterPlaceId || pl.place_id > afterPlaceId))
+          .sort(byString((pl) => pl.place_id))
+          .slice(0, limit)
+          .map(placeSummary);
+      },
+
+      async searchByAddress(area, { limit, ...genre }) {
+        return places()
+          .filter((pl) => ilike(pl.address, area) && matchesGenre(pl, genre))
+          .slice(0, limit)
+          .map(placeSummary);
+      },
+
+      async withinBox(box, { afterPlaceId, limit, ...genre }) {
+        return places()
+          .filter((pl) => inBox(pl, box) && matchesGenre(pl, genre) && (!afterPlaceId || pl.place_id > afterPlaceId))
+          .sort(byString((pl) => pl.place_id))
+          .slice(0, limit)
+          .map(placeSummary);
+      },
+
+      async idsByGenre({ afterPlaceId, limit, ...genre }) {
+        return places()
+          .filter((pl) => matchesGenre(pl, genre) && (!afterPlaceId || pl.place_id > afterPlaceId))
+          .sort(byString((pl) => pl.place_id))
+          .slice(0, limit)
+          .map((pl) => pl.place_id);
+      },
+
+      async listGenres({ afterPlaceId, limit }) {
+        return places()
+          .filter((pl) => pl.primary_genre !== null || pl.genre_tags !== null)
+          .filter((pl) => !afterPlaceId || pl.place_id > afterPlaceId)
+          .sort(byString((pl) => pl.place_id))
+          .slice(0, limit)
+          .map(({ place_id, primary_genre, genre_tags, genre_source, genre_confidence }) => ({
+            place_id,
+            primary_genre,
+            genre_tags,
+            genre_source,
+            genre_confidence,
+          }));
+      },
+    },
+
+    profiles: {
+      async getDetail(by) {
+        const pr = profiles().find((p) => (by.id ? p.id === by.id : p.username === by.username));
+        return pr ? profileDetailSchema.parse(pr) : null;
+      },
+
+      async listAuthors(ids) {
+        const set = new Set(ids);
+        return profiles()
+          .filter((pr) => set.has(pr.id))
+          .map((pr) => authorSchema.parse(pr));
+      },
+
+      async listSummaries(ids) {
+        const set = new Set(ids);
+        return profiles()
+          .filter((pr) => set.has(pr.id))
+          .map(profileSummary);
+      },
+
+      async visibility(ids) {
+        const set = new Set(ids);
+        return profiles()
+          .filter((pr) => set.has(pr.id))
+          .map((pr) => ({ id: pr.id, is_public: pr.is_public }));
+      },
+
+      async search(column, query, { afterId, limit }) {
+        return profiles()
+          .filter((pr) => ilike(pr[column], query) && (!afterId || pr.id > afterId))
+          .sort(byString((pr) => pr.id))
+          .slice(0, limit)
+          .map(profileSummary);
+      },
+
+      async recentPublic(limit) {
+        return profiles()
+          .filter((pr) => pr.is_public === true && pr.username !== null)
+          .sort((a, b) => compareKeysetDesc(a.updated_at, a.id, b.updated_at, b.id))
+          .slice(0, limit)
+          .map(profileSummary);
+      },
+    },
+
+    follows: {
+      async followeeIds(userId, status = "accepted") {
+        return follows()
+          .filter((f) => f.follower_id === userId && f.status === status)
+          .map((f) => f.followee_id);
+      },
+
+      async followerIds(userId) {
+        return follows()
+          .filter((f) => f.followee_id === userId && f.status === "accepted")
+          .map((f) => f.follower_id);
+      },
+
+      async edgesFrom(followerIds) {
+        const from = new Set(followerIds);
+        return follows()
+          .filter((f) => from.has(f.follower_id) && f.status === "accepted")
+          .map((f) => ({ follower_id: f.follower_id, followee_id: f.followee_id }));
+      },
+
+      async list({ userId, direction, status = "accepted", after, limit }) {
+        const self = direction === "followers" ? "followee_id" : "follower_id";
+        const other = direction === "followers" ? "follower_id" : "followee_id";
+
+        return follows()
+          .filter((f) => f[self] === userId && f.status === status)
+          .filter((f) => !after || compareKeysetDesc(f.created_at, f[other], after.k, after.i) > 0)
+          .sort((a, b) => compareKeysetDesc(a.created_at, a[other], b.created_at, b[other]))
+          .slice(0, limit)
+          .map((f) => ({ ...f }));
+      },
+
+      async pendingCounts(userId, direction) {
+        const self = direction === "followers" ? "followee_id" : "follower_id";
+        const pending = follows().filter((f) => f[self] === userId && f.status === "pending");
+        return { total: pending.length, unread: pending.filter((f) => f.request_read !== true).length };
+      },
+
+      async get(followerId, followeeId) {
+        const f = follows().find((row) => row.follower_id === followerId && row.followee_id === followeeId);
+        return f ? { ...f } : null;
+      },
+
+      // (follower_id, followee_id) は主キー。重複は Postgres と同じ 23505 で落とす
+      async insert(row) {
+        if (follows().some((f) => f.follower_id === row.follower_id && f.followee_id === row.followee_id)) {
+          throw uniqueViolation("follows_pkey");
+        }
+        (fixtures.follows ??= []).push({ ...row });
+        return { ...row };
+      },
+
+      async update(followerId, followeeId, patch) {
+        const f = follows().find((row) => row.follower_id === followerId && row.followee_id === followeeId);
+        if (!f) return null;
+        Object.assign(f, patch);
+        return { ...f };
+      },
+
+      async delete(followerId, followeeId) {
+        const i = follows().findIndex((row) => row.follower_id === followerId && row.followee_id === followeeId);
+        if (i < 0) return false;
+        fixtures.follows!.splice(i, 1);
+        return true;
+      },
+    },
+
+    posts: {
+      async get(id) {
+        const p = posts().find((row) => row.id === id);
+        return p ? postRowSchema.parse(p) : null;
+      },
+
+      async list(query) {
+        const sortCol = POST_SORT_COLUMN[query.sort ?? "recent"];
+        const terms = splitTerms(query.keyword ?? "").map(termVariants);
+        const userIds = query.userIds ? new Set(query.userIds) : null;
+        const excluded = new Set(query.excludeUserIds ?? []);
+        const placeIds = query.placeIds ? new Set(query.placeIds) : null;
+        const hidden = hiddenAuthors(query.visibleTo);
+
+        const rows = posts()
+          .filter((p) => !userIds || userIds.has(p.user_id))
+          .filter((p) => !excluded.has(p.user_id) && !hidden.has(p.user_id))
+          .filter((p) => !query.placeId || p.place_id === query.placeId)
+          .filter((p) => !placeIds || (p.place_id !== null && placeIds.has(p.place_id)))
+          .filter((p) => query.hasPlace === undefined || (p.place_id !== null) === query.hasPlace)
+          .filter((p) => !query.hasScore || p.recommend_score !== null)
+          .filter((p) => terms.every((variants) => variants.some((v) => ilike(p.content, v) || ilike(p.place_name, v))))
+          .filter((p) => !query.priceRanges?.length || (p.price_range !== null && query.priceRanges.includes(p.price_range)))
+          .filter((p) => query.priceYenMin === undefined || (p.price_yen !== null && p.price_yen >= query.priceYenMin))
+          .filter((p) => query.priceYenMax === undefined || (p.price_yen !== null && p.price_yen <= query.priceYenMax))
+          .filter(
+            (p) =>
+              query.minRecommendScore === undefined ||
+              (p.recommend_score !== null && p.recommend_score >= query.minRecommendScore)
+          )
+          .filter((p) => !query.createdAfter || time(p.created_at) >= Date.parse(query.createdAfter))
+          .filter((p) => !query.createdBefore || time(p.created_at) < Date.parse(query.createdBefore))
+          .filter((p) => !query.after || compareKeysetDesc(p[sortCol], p.id, query.after.k, query.after.i) > 0)
+          .sort((a, b) => compareKeysetDesc(a[sortCol], a.id, b[sortCol], b.id))
+          .map((p) => postRowSchema.parse(p));
+
+        return query.limit === undefined ? rows : rows.slice(0, query.limit);
+      },
+
+      async listPlaceScores(placeIds, visibleTo) {
+        const ids = new Set(placeIds);
+        const hidden = hiddenAuthors(visibleTo);
+        return posts()
+          .filter((p) => p.place_id !== null && ids.has(p.place_id) && !hidden.has(p.user_id))
+          .map(({ place_id, user_id, recommend_score }) => ({ place_id, user_id, recommend_score }));
+      },
+
+      async insert(row) {
+        if (posts().some((p) => p.id === row.id)) throw uniqueViolation("posts_pkey");
+        (fixtures.posts ??= []).push({ ...row });
+        return postRowSchema.parse(row);
+      },
+
+      async update(id, patch) {
+        const p = posts().find((row) => row.id === id);
+        if (!p) return null;
+        Object.assign(p, patch);
+        return postRowSchema.parse(p);
+      },
+
+      async delete(id) {
+        const i = posts().findIndex((row) => row.id === id);
+        if (i < 0) return false;
+        fixtures.posts!.splice(i, 1);
+        return true;
+      },
+    },
+  };
+}
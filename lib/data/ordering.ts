@@ -0,0 +1,26 @@
+// lib/data/ordering.ts
+// Supabase 側の ORDER BY と同じ並びを JS で再現する（マージ・インメモリ実装用）
+
+type Key = string | number | null;
+
+const compareKey = (a: Exclude<Key, null>, b: Exclude<Key, null>) => {
+  if (typeof a === "string" && typeof b === "string") {
+    const ta = Date.parse(a);
+    const tb = Date.parse(b);
+    if (!Number.isNaN(ta) && !Number.isNaN(tb) && ta !== tb) return ta < tb ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * ORDER BY key desc nulls last, id desc。a が先なら負
+ */
+export function compareKeysetDesc(ak: Key, aid: string, bk: Key, bid: string): number {
+  if (ak !== bk) {
+    if (ak === null) return 1;
+    if (bk === null) return -1;
+    const c = compareKey(ak, bk);
+    if (c !== 0) return -c;
+  }
+  return aid < bid ? 1 : aid > bid ? -1 : 0;
+}
@@ -0,0 +1,437 @@
+// lib/data/supabase.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { keysetFilter, type Cursor } from "@/lib/cursor";
+import { keywordOrFilters } from "@/lib/textSearch";
+import {
+  AUTHOR_COLUMNS,
+  FOLLOW_COLUMNS,
+  PLACE_DETAIL_COLUMNS,
+  PLACE_GENRE_COLUMNS,
+  PLACE_SUMMARY_COLUMNS,
+  POST_COLUMNS,
+  PROFILE_DETAIL_COLUMNS,
+  PROFILE_SUMMARY_COLUMNS,
+  type Author,
+  type FollowRow,
+  type PlaceDetail,
+  type PlaceGenre,
+  type PlaceSummary,
+  type PostRow,
+  type ProfileDetail,
+  type ProfileSummary,
+} from "@/lib/schemas";
+import { compareKeysetDesc } from "@/lib/data/ordering";
+import {
+  POST_SORT_COLUMN,
+  type DataStore,
+  type FollowEdge,
+  type GenreFilter,
+  type PlaceScoreRow,
+  type PostVisibility,
+  type ProfileVisibility,
+} from "@/lib/data/types";
+
+const PAGE_SIZE = 1000; // PostgREST の max-rows 既定値
+const IN_CHUNK = 200; // .in(...) が URL に収まる程度
+
+const chunk = <T,>(arr: T[], size: number) =>
+  Array.from({ length: Math.ceil(arr.length / size) }, (_, i) => arr.slice(i * size, (i + 1) * size));
+
+type PageResult = { data: unknown[] | null; error: { message: string } | null };
+
+// 集計用に全件が要るとき。range で PAGE_SIZE ずつ辿る
+async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PromiseLike<PageResult>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if ((data ?? []).length < PAGE_SIZE) return rows;
+  }
+}
+
+// ids が多いときは IN_CHUNK ずつに分けて引く
+async function selectIn<T>(
+  ids: string[],
+  fetchChunk: (ids: string[]) => PromiseLike<PageResult>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const part of chunk(Array.from(new Set(ids)), IN_CHUNK)) {
+    const { data, error } = await fetchChunk(part);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+const inList = (ids: string[]) => `(${ids.join(",")})`;
+
+export function createSupabaseStore(supabase: SupabaseClient): DataStore {
+  const visibility = (ids: string[]) =>
+    selectIn<ProfileVisibility>(ids, (part) => supabase.from("profiles").select("id,is_public").in("id", part));
+
+  // 取れた行の投稿者だけ is_public を引き、見えない非公開アカウントの投稿を落とす
+  const visibleRows = async <T extends { user_id: string }>(rows: T[], visibleTo: PostVisibility | undefined) => {
+    if (!visibleTo || rows.length === 0) return rows;
+    const allowed = new Set(visibleTo.followeeIds);
+    if (visibleTo.viewerId) allowed.add(visibleTo.viewerId);
+    const authorIds = rows.map((r) => r.user_id).filter((id) => !allowed.has(id));
+    const hidden = new Set((await visibility(authorIds)).filter((pr) => pr.is_public === false).map((pr) => pr.id));
+    return hidden.size === 0 ? rows : rows.filter((r) => !hidden.has(r.user_id));
+  };
+
+  const placesQuery = (columns: string, genre: GenreFilter) => {
+    let q = supabase.from("places").select(columns);
+    if (genre.primary_genre && genre.primary_genre.length > 0) q = q.in("primary_genre", genre.primary_genre);
+    if (genre.genre_tags && genre.genre_tags.length > 0) q = q.overlaps("genre_tags", genre.genre_tags);
+    return q;
+  };
+
+  return {
+    places: {
+      async getDetail(placeId) {
+        const { data, error } = await supabase
+          .from("places")
+          .select(PLACE_DETAIL_COLUMNS)
+          .eq("place_id", placeId)
+          .maybeSingle();
+        if (error) throw error;
+        return data as PlaceDetail | null;
+      },
+
+      listByIds(placeIds) {
+        return selectIn<PlaceSummary>(placeIds, (ids) =>
+          supabase.from("places").select(PLACE_SUMMARY_COLUMNS).in("place_id", ids)
+        );
+      },
+
+      async searchByName(query, { afterPlaceId, limit }) {
+        let q = supabase.from("places").select(PLACE_SUMMARY_COLUMNS).ilike("name", `%${query}%`);
+        if (afterPlaceId) q = q.gt("place_id", afterPlaceId);
+
+        const { data, error } = await q.order("place_id").limit(limit);
+        if (error) throw error;
+        return (data ?? []) as PlaceSummary[];
+      },
+
+      async searchByAddress(area, { limit, ...genre }) {
+        const { data, error } = await placesQuery(PLACE_SUMMARY_COLUMNS, genre)
+          .ilike("address", `%${area}%`)
+          .limit(limit);
+        if (error) throw error;
+        return (data ?? []) as unknown as PlaceSummary[];
+      },
+
+      async withinBox(box, { afterPlaceId, limit, ...genre }) {
+        let q = placesQuery(PLACE_SUMMARY_COLUMNS, genre)
+          .gte("lat", box.minLat)
+          .lte("lat", box.maxLat)
+          .gte("lng", box.minLng)
+          .lte("lng", box.maxLng);
+        if (afterPlaceId) q = q.gt("place_id", afterPlaceId);
+        const { data, error } = await q.order("place_id").limit(limit);
+        if (error) throw error;
+        return (data ?? []) as unknown as PlaceSummary[];
+      },
+
+      async idsByGenre({ afterPlaceId, limit, ...genre }) {
+        let q = placesQuery("place_id", genre);
+        if (afterPlaceId) q = q.gt("place_id", afterPlaceId);
+        const { data, error } = await q.order("place_id").limit(limit);
+        if (error) throw error;
+        return ((data ?? []) as unknown as Pick<PlaceSummary, "place_id">[]).map((r) => r.place_id);
+      },
+
+      async listGenres({ afterPlaceId, limit }) {
+        let q = supabase
+          .from("places")
+          .select(PLACE_GENRE_COLUMNS)
+          .or("primary_genre.not.is.null,genre_tags.not.is.null");
+        if (afterPlaceId) q = q.gt("place_id", afterPlaceId);
+
+        const { data, error } = await q.order("place_id").limit(limit);
+        if (error) throw error;
+        return (data ?? []) as PlaceGenre[];
+      },
+    },
+
+    profiles: {
+      async getDetail(by) {
+        let q = supabase.from("profiles").select(PROFILE_DETAIL_COLUMNS);
+        q = by.id ? q.eq("id", by.id) : q.eq("username", by.username!);
+
+        const { data, error } = await q.maybeSingle();
+        if (error) throw error;
+        return data as ProfileDetail | null;
+      },
+
+      visibility,
+
+      listAuthors(ids) {
+        return selectIn<Author>(ids, (part) => supabase.from("profiles").select(AUTHOR_COLUMNS).in("id", part));
+      },
+
+      listSummaries(ids) {
+        return selectIn<ProfileSummary>(ids, (part) =>
+          supabase.from("profiles").select(PROFILE_SUMMARY_COLUMNS).in("id", part)
+        );
+      },
+
+      async search(column, query, { afterId, limit }) {
+        let q = supabase.from("profiles").select(PROFILE_SUMMARY_COLUMNS).ilike(column, `%${query}%`);
+        if (afterId) q = q.gt("id", afterId);
+
+        const { data, error } = await q.order("id").limit(limit);
+        if (error) throw error;
+        return (data ?? []) as ProfileSummary[];
+      },
+
+      async recentPublic(limit) {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select(PROFILE_SUMMARY_COLUMNS)
+          .eq("is_public", true)
+          .not("username", "is", null)
+          .order("updated_at", { ascending: false, nullsFirst: false })
+          .limit(limit);
+        if (error) throw error;
+        return (data ?? []) as ProfileSummary[];
+      },
+    },
+
+    follows: {
+      async followeeIds(userId, status = "accepted") {
+        const rows = await fetchAllRows<Pick<FollowRow, "followee_id">>((from, to) =>
+          supabase
+            .from("follows")
+            .select("followee_id")
+            .eq("follower_id", userId)
+            .eq("status", status)
+            .order("followee_id")
+            .range(from, to)
+        );
+        return rows.map((r) => r.followee_id);
+      },
+
+      async followerIds(userId) {
+        const rows = await fetchAllRows<Pick<FollowRow, "follower_id">>((from, to) =>
+          supabase
+            .from("follows")
+            .select("follower_id")
+            .eq("followee_id", userId)
+            .eq("status", "accepted")
+            .order("follower_id")
+            .range(from, to)
+        );
+        return rows.map((r) => r.follower_id);
+      },
+
+      async edgesFrom(followerIds) {
+        const edges: FollowEdge[] = [];
+        for (const part of chunk(Array.from(new Set(followerIds)), IN_CHUNK)) {
+          const rows = await fetchAllRows<FollowEdge>((from, to) =>
+            supabase
+              .from("follows")
+              .select("follower_id,followee_id")
+              .in("follower_id", part)
+              .eq("status", "accepted")
+              .order("follower_id")
+              .order("followee_id")
+              .range(from, to)
+          );
+          edges.push(...rows);
+        }
+        return edges;
+      },
+
+      async list({ userId, direction, status = "accepted", after, limit }) {
+        const [self, other] =
+          direction === "followers" ? ["followee_id", "follower_id"] : ["follower_id", "followee_id"];
+
+        let q = supabase.from("follows").select(FOLLOW_COLUMNS).eq(self, userId).eq("status", status);
+        if (after) q = q.or(keysetFilter("created_at", other, after));
+
+        const { data, error } = await q
+          .order("created_at", { ascending: false, nullsFirst: false })
+          .order(other, { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+        return (data ?? []) as FollowRow[];
+      },
+
+      async pendingCounts(userId, direction) {
+        const self = direction === "followers" ? "followee_id" : "follower_id";
+        const count = async (unreadOnly: boolean) => {
+          let q = supabase
+            .from("follows")
+            .select("follower_id", { count: "exact", head: true })
+            .eq(self, userId)
+            .eq("status", "pending");
+          // request_read IS NOT TRUE（null も未読）
+          if (unreadOnly) q = q.not("request_read", "is", true);
+          const { count, error } = await q;
+          if (error) throw error;
+          return count ?? 0;
+        };
+        const [total, unread] = await Promise.all([count(false), count(true)]);
+        return { total, unread };
+      },
+
+      async get(followerId, followeeId) {
+        const { data, error } = await supabase
+          .from("follows")
+          .select(FOLLOW_COLUMNS)
+          .eq("follower_id", followerId)
+          .eq("followee_id", followeeId)
+          .maybeSingle();
+        if (error) throw error;
+        return data as FollowRow | null;
+      },
+
+      async insert(row) {
+        const { data, error } = await supabase.from("follows").insert(row).select(FOLLOW_COLUMNS).single();
+        if (error) throw error;
+        return data as FollowRow;
+      },
+
+      async update(followerId, followeeId, patch) {
+        const { data, error } = await supabase
+          .from("follows")
+          .update(patch)
+          .eq("follower_id", followerId)
+          .eq("followee_id", followeeId)
+          .select(FOLLOW_COLUMNS)
+          .maybeSingle();
+        if (error) throw error;
+        return data as FollowRow | null;
+      },
+
+      async delete(followerId, followeeId) {
+        const { data, error } = await supabase
+          .from("follows")
+          .delete()
+          .eq("follower_id", followerId)
+          .eq("followee_id", followeeId)
+          .select("follower_id");
+        if (error) throw error;
+        return (data ?? []).length > 0;
+      },
+    },
+
+    posts: {
+      async get(id) {
+        const { data, error } = await supabase.from("posts").select(POST_COLUMNS).eq("id", id).maybeSingle();
+        if (error) throw error;
+        return data as PostRow | null;
+      },
+
+      async list(query) {
+        const sortCol = POST_SORT_COLUMN[query.sort ?? "recent"];
+
+        // userIds / placeIds は IN_CHUNK 以下に分けたもの
+        const build = (userIds?: string[], placeIds?: string[], after?: Cursor | null) => {
+          let q = supabase.from("posts").select(POST_COLUMNS);
+
+          if (userIds) q = q.in("user_id", userIds);
+          if (query.excludeUserIds && query.excludeUserIds.length > 0) {
+            q = q.not("user_id", "in", inList(query.excludeUserIds));
+          }
+          if (query.placeId) q = q.eq("place_id", query.placeId);
+          if (placeIds) q = q.in("place_id", placeIds);
+          if (query.hasPlace === true) q = q.not("place_id", "is", null);
+          if (query.hasPlace === false) q = q.is("place_id", null);
+          if (query.hasScore) q = q.not("recommend_score", "is", null);
+          for (const filter of keywordOrFilters(query.keyword ?? "", ["content", "place_name"])) q = q.or(filter);
+          if (query.priceRanges && query.priceRanges.length > 0) q = q.in("price_range", query.priceRanges);
+          if (query.priceYenMin !== undefined) q = q.gte("price_yen", query.priceYenMin);
+          if (query.priceYenMax !== undefined) q = q.lte("price_yen", query.priceYenMax);
+          if (query.minRecommendScore !== undefined) q = q.gte("recommend_score", query.minRecommendScore);
+          if (query.createdAfter) q = q.gte("created_at", query.createdAfter);
+          if (query.createdBefore) q = q.lt("created_at", query.createdBefore);
+          if (after) q = q.or(keysetFilter(sortCol, "id", after));
+
+          return q.order(sortCol, { ascending: false, nullsFirst: false }).order("id", { ascending: false });
+        };
+
+        const page = async (
+          userIds: string[] | undefined,
+          placeIds: string[] | undefined,
+          after: Cursor | null | undefined,
+          limit: number
+        ) => {
+          const { data, error } = await build(userIds, placeIds, after).limit(limit);
+          if (error) throw error;
+          return (data ?? []) as PostRow[];
+        };
+
+        const run = async (userIds?: string[], placeIds?: string[]): Promise<PostRow[]> => {
+          if (query.limit === undefined) {
+            const rows = await fetchAllRows<PostRow>((from, to) =>
+              build(userIds, placeIds, query.after).range(from, to)
+            );
+            return visibleRows(rows, query.visibleTo);
+          }
+
+          // 見えない投稿を落として limit に足りなければ、落とす前の最後の行から続きを引く
+          const out: PostRow[] = [];
+          let after = query.after;
+          for (;;) {
+            const rows = await page(userIds, placeIds, after, query.limit);
+            out.push(...(await visibleRows(rows, query.visibleTo)));
+            if (rows.length < query.limit || out.length >= query.limit) return out.slice(0, query.limit);
+            const last = rows[rows.length - 1];
+            after = { k: last[sortCol], i: last.id };
+          }
+        };
+
+        if (query.userIds?.length === 0 || query.placeIds?.length === 0) return [];
+        const placeChunks = query.placeIds ? chunk(Array.from(new Set(query.placeIds)), IN_CHUNK) : [undefined];
+        const userChunks = query.userIds ? chunk(query.userIds, IN_CHUNK) : [undefined];
+        if (placeChunks.length <= 1 && userChunks.length <= 1) return run(userChunks[0], placeChunks[0]);
+
+        // user_id / place_id が多いときは分けて引き、同じ並びでマージし直す
+        const parts = await Promise.all(
+          userChunks.flatMap((userIds) => placeChunks.map((placeIds) => run(userIds, placeIds)))
+        );
+        const merged = parts.flat().sort((a, b) => compareKeysetDesc(a[sortCol], a.id, b[sortCol], b.id));
+        return query.limit === undefined ? merged : merged.slice(0, query.limit);
+      },
+
+      async listPlaceScores(placeIds, visibleTo) {
+        // 1 チャンクでも PAGE_SIZE を超えうるので、チャンクごとにページを辿る
+        const rows: PlaceScoreRow[] = [];
+        for (const part of chunk(Array.from(new Set(placeIds)), IN_CHUNK)) {
+          rows.push(
+            ...(await fetchAllRows<PlaceScoreRow>((from, to) =>
+              supabase
+                .from("posts")
+                .select("place_id,user_id,recommend_score")
+                .in("place_id", part)
+                .order("id")
+                .range(from, to)
+            ))
+          );
+        }
+        return visibleRows(rows, visibleTo);
+      },
+
+      async insert(row) {
+        const { data, error } = await supabase.from("posts").insert(row).select(POST_COLUMNS).single();
+        if (error) throw error;
+        return data as PostRow;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await supabase.from("posts").update(patch).eq("id", id).select(POST_COLUMNS).maybeSingle();
+        if (error) throw error;
+        return data as PostRow | null;
+      },
+
+      async delete(id) {
+        const { data, error } = await supabase.from("posts").delete().eq("id", id).select("id");
+        if (error) throw error;
+        return (data ?? []).length > 0;
+      },
+    },
+  };
+}
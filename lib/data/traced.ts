@@ -0,0 +1,27 @@
+// lib/data/traced.ts
+// リポジトリの各メソッド（= Supabase への 1 クエリ）を db.<repo>.<method> のスパンにする DataStore のラッパー。
+// キャッシュより内側に挟み、実際に DB まで行った呼び出しだけを記録する
+import type { DataStore } from "@/lib/data/types";
+import { traced } from "@/lib/tracing";
+
+type Repository = Record<string, (...args: never[]) => Promise<unknown>>;
+
+function traceRepository<R extends object>(name: string, repo: R): R {
+  const methods = repo as unknown as Repository;
+  return Object.fromEntries(
+    Object.entries(methods).map(([method, fn]) => [
+      method,
+      (...args: never[]) => traced(`db.${name}.${method}`, () => fn(...args)),
+    ])
+  ) as R;
+}
+
+export function createTracedStore(inner: DataStore): DataStore {
+  return {
+    ...inner,
+    places: traceRepository("places", inner.places),
+    profiles: traceRepository("profiles", inner.profiles),
+    follows: traceRepository("follows", inner.follows),
+    posts: traceRepository("posts", inner.posts),
+  };
+}
@@ -0,0 +1,144 @@
+// lib/data/types.ts
+// ツールが使うデータアクセスの窓口。Supabase 実装とテスト用のインメモリ実装がある
+import type { Cursor } from "@/lib/cursor";
+import type { CacheStats } from "@/lib/data/loader";
+import type {
+  Author,
+  FollowRow,
+  PlaceDetail,
+  PlaceGenre,
+  PlaceSummary,
+  PostRow,
+  ProfileDetail,
+  ProfileSummary,
+} from "@/lib/schemas";
+
+export type ProfileVisibility = Pick<ProfileSummary, "id" | "is_public">;
+
+// primary_genre はどれかに一致、genre_tags はどれかを含む
+export type GenreFilter = { primary_genre?: string[]; genre_tags?: string[] };
+
+export type Box = { minLat: number; maxLat: number; minLng: number; maxLng: number };
+
+/**
+ * 非公開アカウント（profiles.is_public = false）の投稿のうち、viewerId 本人と followeeIds の分だけを残す。
+ * 非公開アカウントの id の一覧はクエリに載せず、取れた行の投稿者だけを調べる
+ */
+export type PostVisibility = { viewerId: string | null; followeeIds: string[] };
+
+/**
+ * posts の絞り込み。並びは sort 列 desc（null は末尾）→ id desc。
+ * limit を省略すると全件（Supabase 実装はページを辿る）。
+ */
+export type PostQuery = {
+  userIds?: string[];
+  excludeUserIds?: string[];
+  visibleTo?: PostVisibility;
+  placeId?: string;
+  placeIds?: string[];
+  /** true なら place_id のある投稿だけ、false なら無い投稿だけ */
+  hasPlace?: boolean;
+  hasScore?: boolean;
+  keyword?: string;
+  priceRanges?: string[];
+  priceYenMin?: number;
+  priceYenMax?: number;
+  minRecommendScore?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  sort?: "recent" | "score";
+  after?: Cursor | null;
+  limit?: number;
+};
+
+/** 店ごとの集計に要る列だけ */
+export type PlaceScoreRow = Pick<PostRow, "place_id" | "user_id" | "recommend_score">;
+
+export const POST_SORT_COLUMN = { recent: "created_at", score: "recommend_score" } as const;
+
+export type PlacesRepository = {
+  getDetail(placeId: string): Promise<PlaceDetail | null>;
+  listByIds(placeIds: string[]): Promise<PlaceSummary[]>;
+  /** name の部分一致。place_id 昇順 */
+  searchByName(query: string, opts: { afterPlaceId?: string; limit: number }): Promise<PlaceSummary[]>;
+  /** address の部分一致 */
+  searchByAddress(area: string, opts: GenreFilter & { limit: number }): Promise<PlaceSummary[]>;
+  /** lat/lng が box 内の店。place_id 昇順 */
+  withinBox(box: Box, opts: GenreFilter & { afterPlaceId?: string; limit: number }): Promise<PlaceSummary[]>;
+  /** place_id 昇順 */
+  idsByGenre(opts: GenreFilter & { afterPlaceId?: string; limit: number }): Promise<string[]>;
+  /** primary_genre か genre_tags のある店のジャンル列。place_id 昇順 */
+  listGenres(opts: { afterPlaceId?: string; limit: number }): Promise<PlaceGenre[]>;
+};
+
+export type ProfilesRepository = {
+  getDetail(by: { id?: string; username?: string }): Promise<ProfileDetail | null>;
+  listAuthors(ids: string[]): Promise<Author[]>;
+  listSummaries(ids: string[]): Promise<ProfileSummary[]>;
+  /** 閲覧可否に使う is_public だけ。キャッシュ層もこれは毎回引く */
+  visibility(ids: string[]): Promise<ProfileVisibility[]>;
+  /** 部分一致。id 昇順 */
+  search(
+    column: "username" | "display_name",
+    query: string,
+    opts: { afterId?: string; limit: number }
+  ): Promise<ProfileSummary[]>;
+  recentPublic(limit: number): Promise<ProfileSummary[]>;
+};
+
+export type FollowStatus = "accepted" | "pending";
+
+export type FollowEdge = Pick<FollowRow, "follower_id" | "followee_id">;
+
+export type FollowsRepository = {
+  /** フォロー先（既定は accepted） */
+  followeeIds(userId: string, status?: FollowStatus): Promise<string[]>;
+  /** accepted のフォロワー */
+  followerIds(userId: string): Promise<string[]>;
+  /** followerIds の誰かが accepted でフォローしている辺 */
+  edgesFrom(followerIds: string[]): Promise<FollowEdge[]>;
+  /** 既定は accepted。(created_at desc, 相手の id desc) */
+  list(opts: {
+    userId: string;
+    direction: "followers" | "following";
+    status?: FollowStatus;
+    after?: Cursor | null;
+    limit: number;
+  }): Promise<FollowRow[]>;
+  /** pending の件数と、そのうち request_read が true でないもの */
+  pendingCounts(userId: string, direction: "followers" | "following"): Promise<{ total: number; unread: number }>;
+  get(followerId: string, followeeId: string): Promise<FollowRow | null>;
+  insert(row: FollowRow): Promise<FollowRow>;
+  update(
+    followerId: string,
+    followeeId: string,
+    patch: Partial<Pick<FollowRow, "status" | "request_read">>
+  ): Promise<FollowRow | null>;
+  /** 消せたら true */
+  delete(followerId: string, followeeId: string): Promise<boolean>;
+};
+
+/** 書き込みツールが変えてよい posts の列 */
+export type PostPatch = Partial<
+  Pick<PostRow, "content" | "place_id" | "place_name" | "place_address" | "recommend_score" | "price_yen" | "price_range">
+>;
+
+export type PostsRepository = {
+  get(id: string): Promise<PostRow | null>;
+  list(query: PostQuery): Promise<PostRow[]>;
+  /** placeIds への投稿を集計用の列だけ全件（並びは問わない） */
+  listPlaceScores(placeIds: string[], visibleTo?: PostVisibility): Promise<PlaceScoreRow[]>;
+  insert(row: PostRow): Promise<PostRow>;
+  update(id: string, patch: PostPatch): Promise<PostRow | null>;
+  /** 消せたら true */
+  delete(id: string): Promise<boolean>;
+};
+
+export type DataStore = {
+  places: PlacesRepository;
+  profiles: ProfilesRepository;
+  follows: FollowsRepository;
+  posts: PostsRepository;
+  /** キャッシュ付きの実装（createCachedStore）だけが持つ */
+  cacheStats?: () => Record<string, CacheStats>;
+};
@@ -0,0 +1,96 @@
+// lib/errors.ts
+// ツールが返すエラーの分類。クライアントには code と、内部事情を含まないメッセージだけを見せる
+import { CursorError } from "@/lib/cursor";
+import { errorFields, log } from "@/lib/log";
+
+export const ERROR_CODES = [
+  "NOT_FOUND",
+  "INVALID_ARGUMENT",
+  "FORBIDDEN",
+  "UPSTREAM_UNAVAILABLE",
+  "RATE_LIMITED",
+  "INTERNAL",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export class ToolError extends Error {
+  readonly code: ErrorCode;
+  /** RATE_LIMITED / UPSTREAM_UNAVAILABLE のとき、再試行までの秒数 */
+  readonly retryAfterSec?: number;
+
+  constructor(code: ErrorCode, message: string, opts: { retryAfterSec?: number; cause?: unknown } = {}) {
+    super(message, { cause: opts.cause });
+    this.name = "ToolError";
+    this.code = code;
+    this.retryAfterSec = opts.retryAfterSec;
+  }
+}
+
+export const notFound = (what: string) => new ToolError("NOT_FOUND", `${what} not found`);
+export const invalidArgument = (message: string) => new ToolError("INVALID_ARGUMENT", message);
+export const forbidden = (message: string) => new ToolError("FORBIDDEN", message);
+
+// JSON-RPC を通らない HTTP の入口（/api/export）で返すステータス
+export const HTTP_STATUS: Record<ErrorCode, number> = {
+  NOT_FOUND: 404,
+  INVALID_ARGUMENT: 400,
+  FORBIDDEN: 403,
+  UPSTREAM_UNAVAILABLE: 503,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+};
+
+// 外に出すメッセージ（Postgres / PostgREST の生の文言は返さない）
+const PUBLIC_MESSAGES: Record<ErrorCode, string> = {
+  NOT_FOUND: "Not found",
+  INVALID_ARGUMENT: "Invalid argument",
+  FORBIDDEN: "Access denied",
+  UPSTREAM_UNAVAILABLE: "The data store is temporarily unavailable",
+  RATE_LIMITED: "Too many requests",
+  INTERNAL: "Internal error",
+};
+
+type PostgrestLike = { code: string; message: string; details?: string | null; hint?: string | null };
+
+const isPostgrestLike = (e: unknown): e is PostgrestLike =>
+  typeof e === "object" &&
+  e !== null &&
+  typeof (e as PostgrestLike).code === "string" &&
+  typeof (e as PostgrestLike).message === "string";
+
+/**
+ * PostgREST / Postgres のエラーコード → ErrorCode。
+ * https://postgrest.org/en/stable/references/errors.html / https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+function classifyPostgrest(code: string): ErrorCode {
+  // fetch 自体が失敗したとき postgrest-js は code を空で返す
+  if (code === "") return "UPSTREAM_UNAVAILABLE";
+  if (code === "PGRST116") return "NOT_FOUND";
+  if (/^PGRST00\d$/.test(code)) return "UPSTREAM_UNAVAILABLE"; // DB 接続・プール
+  if (code === "PGRST301" || code === "PGRST302") return "UPSTREAM_UNAVAILABLE"; // service role の JWT 不正
+  if (code === "PGRST103") return "INVALID_ARGUMENT"; // range 外
+  if (code === "42501") return "FORBIDDEN"; // insufficient_privilege（RLS）
+  if (code === "57014") return "UPSTREAM_UNAVAILABLE"; // statement timeout
+  if (/^(08|53|57P)/.test(code)) return "UPSTREAM_UNAVAILABLE"; // 接続・リソース不足・シャットダウン
+  if (/^22/.test(code)) return "INVALID_ARGUMENT"; // data_exception（uuid や日付の書式など）
+  if (code === "23505") return "INVALID_ARGUMENT"; // unique_violation
+  return "INTERNAL";
+}
+
+/**
+ * 何が投げられても ToolError にそろえる。想定外のものはメッセージを伏せてサーバーログにだけ残す
+ */
+export function toToolError(e: unknown): ToolError {
+  if (e instanceof ToolError) return e;
+  if (e instanceof CursorError) return invalidArgument(e.message);
+
+  if (isPostgrestLike(e)) {
+    const code = classifyPostgrest(e.code);
+    log.error("mcp.upstream_error", { code: e.code, message: e.message, details: e.details, hint: e.hint });
+    return new ToolError(code, PUBLIC_MESSAGES[code], { cause: e });
+  }
+
+  log.error("mcp.unexpected_error", { error: errorFields(e) });
+  return new ToolError("INTERNAL", PUBLIC_MESSAGES.INTERNAL, { cause: e });
+}
@@ -0,0 +1,195 @@
+// lib/export.ts
+// 投稿の書き出し（CSV / GeoJSON / KML）。1 行ずつ文字列にするだけで、DB アクセスはしない
+import { z } from "zod";
+import type { EnrichedPost } from "@/lib/schemas";
+
+export const EXPORT_FORMATS = ["csv", "geojson", "kml"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// export ツールでインラインに返す上限と、ダウンロード（/api/export）の上限
+export const EXPORT_INLINE_MAX_ROWS = 1000;
+export const EXPORT_MAX_ROWS = 50_000;
+
+// posts.search とほぼ同じ絞り込み。user / place はどちらか・両方でもよい
+export const exportFilterSchema = z.object({
+  user_id: z.string().optional(),
+  username: z.string().optional(),
+  place_id: z.string().optional(),
+  query: z.string().optional().describe("content / place_name のキーワード（空白区切りで AND）"),
+  price_range: z.array(z.string()).optional(),
+  price_yen_min: z.number().int().nonnegative().optional(),
+  price_yen_max: z.number().int().nonnegative().optional(),
+  min_recommend_score: z.number().optional(),
+  created_after: z.string().datetime({ offset: true }).optional(),
+  created_before: z.string().datetime({ offset: true }).optional(),
+  primary_genre: z.string().optional(),
+  genre_tags: z.array(z.string()).optional(),
+});
+export type ExportFilter = z.infer<typeof exportFilterSchema>;
+
+const ARRAY_PARAMS = new Set(["price_range", "genre_tags"]);
+const NUMBER_PARAMS = new Set(["price_yen_min", "price_yen_max", "min_recommend_score"]);
+
+/**
+ * クエリ文字列（配列はカンマ区切り）→ exportFilterSchema にかける前の値
+ */
+export function filterFromQuery(query: Record<string, string | string[] | undefined>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(exportFilterSchema.shape)) {
+    const raw = query[key];
+    const v = Array.isArray(raw) ? raw.join(",") : raw;
+    if (v === undefined || v === "") continue;
+    if (ARRAY_PARAMS.has(key)) out[key] = v.split(",").map((s) => s.trim()).filter(Boolean);
+    else if (NUMBER_PARAMS.has(key)) out[key] = Number(v);
+    else out[key] = v;
+  }
+  return out;
+}
+
+// filterFromQuery の逆。export ツールが返すダウンロード用のパス
+export function exportPath(format: ExportFormat, filter: ExportFilter, limit?: number): string {
+  const params = new URLSearchParams({ format });
+  for (const [key, v] of Object.entries(filter)) {
+    if (v === undefined) continue;
+    params.set(key, Array.isArray(v) ? v.join(",") : String(v));
+  }
+  if (limit !== undefined) params.set("limit", String(limit));
+  return `/api/export?${params.toString()}`;
+}
+
+const COLUMNS = [
+  "post_id",
+  "created_at",
+  "user_id",
+  "username",
+  "place_id",
+  "place_name",
+  "address",
+  "lat",
+  "lng",
+  "primary_genre",
+  "genre_tags",
+  "recommend_score",
+  "price_yen",
+  "price_range",
+  "content",
+] as const;
+
+type Column = (typeof COLUMNS)[number];
+type Value = string | number | string[] | null;
+
+// 投稿と店の列を 1 行に平らにする。店名・住所は places 側を優先し、無ければ投稿時のもの
+function rowOf(p: EnrichedPost): Record<Column, Value> {
+  return {
+    post_id: p.id,
+    created_at: p.created_at,
+    user_id: p.user_id,
+    username: p.author?.username ?? null,
+    place_id: p.place_id,
+    place_name: p.place?.name ?? p.place_name,
+    address: p.place?.address ?? p.place_address,
+    lat: p.place?.lat ?? null,
+    lng: p.place?.lng ?? null,
+    primary_genre: p.place?.primary_genre ?? null,
+    genre_tags: p.place?.genre_tags ?? null,
+    recommend_score: p.recommend_score,
+    price_yen: p.price_yen,
+    price_range: p.price_range,
+    content: p.content,
+  };
+}
+
+const locationOf = (p: EnrichedPost) =>
+  p.place && p.place.lat !== null && p.place.lng !== null ? { lat: p.place.lat, lng: p.place.lng } : null;
+
+// genre_tags は | 区切りの 1 セルにする
+const plain = (v: Value) => (v === null ? "" : Array.isArray(v) ? v.join("|") : String(v));
+
+// スプレッドシートで数式として解釈されないよう、= + - @ などで始まる文字列は ' を前に付ける
+function csvCell(v: Value): string {
+  if (typeof v === "number") return String(v);
+  let s = plain(v);
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const xml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+export type ExportWriter = {
+  mimeType: string;
+  filename: string;
+  head(): string;
+  /** 書けない行（GeoJSON / KML で位置の無い投稿）は null */
+  row(p: EnrichedPost): string | null;
+  tail(): string;
+};
+
+/**
+ * 形式ごとの書き出し。head → row × n → tail の順に呼んでつなげると 1 ファイルになる
+ */
+export function createExportWriter(format: ExportFormat): ExportWriter {
+  if (format === "csv") {
+    return {
+      mimeType: "text/csv; charset=utf-8",
+      filename: "gourmeet-export.csv",
+      // Excel が UTF-8 と判別できるよう BOM を付ける
+      head: () => `\uFEFF${COLUMNS.join(",")}\r\n`,
+      row: (p) => {
+        const r = rowOf(p);
+        return `${COLUMNS.map((c) => csvCell(r[c])).join(",")}\r\n`;
+      },
+      tail: () => "",
+    };
+  }
+
+  if (format === "geojson") {
+    let first = true;
+    return {
+      mimeType: "application/geo+json",
+      filename: "gourmeet-export.geojson",
+      head: () => '{"type":"FeatureCollection","features":[\n',
+      row: (p) => {
+        const at = locationOf(p);
+        if (!at) return null;
+        // 位置は geometry に入れるので properties からは外す
+        const properties = Object.fromEntries(Object.entries(rowOf(p)).filter(([c]) => c !== "lat" && c !== "lng"));
+        const feature = {
+          type: "Feature",
+          id: p.id,
+          geometry: { type: "Point", coordinates: [at.lng, at.lat] },
+          properties,
+        };
+        const sep = first ? "" : ",\n";
+        first = false;
+        return sep + JSON.stringify(feature);
+      },
+      tail: () => "\n]}\n",
+    };
+  }
+
+  return {
+    mimeType: "application/vnd.google-earth.kml+xml",
+    filename: "gourmeet-export.kml",
+    head: () =>
+      '<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n<name>Gourmeet export</name>\n',
+    row: (p) => {
+      const at = locationOf(p);
+      if (!at) return null;
+      const r = rowOf(p);
+      const data = COLUMNS.filter((c) => c !== "lat" && c !== "lng" && c !== "content" && r[c] !== null)
+        .map((c) => `<Data name="${c}"><value>${xml(plain(r[c]))}</value></Data>`)
+        .join("");
+      return [
+        `<Placemark id="${xml(p.id)}">`,
+        `<name>${xml(String(r.place_name ?? p.id))}</name>`,
+        p.content ? `<description>${xml(p.content)}</description>` : "",
+        p.created_at ? `<TimeStamp><when>${xml(p.created_at)}</when></TimeStamp>` : "",
+        `<ExtendedData>${data}</ExtendedData>`,
+        `<Point><coordinates>${at.lng},${at.lat}</coordinates></Point>`,
+        "</Placemark>\n",
+      ].join("");
+    },
+    tail: () => "</Document>\n</kml>\n",
+  };
+}
@@ -0,0 +1,106 @@
+// lib/feed.ts
+// feed.home の並べ替え（DB アクセスはしない）
+import { round2 } from "@/lib/stats";
+
+export const FEED_MODES = ["chronological", "top", "discover"] as const;
+export type FeedMode = (typeof FEED_MODES)[number];
+
+type FeedPost = {
+  id: string;
+  user_id: string;
+  place_id: string | null;
+  created_at: string | null;
+  recommend_score: number | null;
+};
+
+export type RankedPost<P extends FeedPost> = { post: P; score: number; reasons: string[] };
+
+// recommend_score は 1〜5 を想定（lib/recommend.ts と同じ）
+const HIGH_SCORE = 4;
+const DEFAULT_SCORE = 3;
+const HALF_LIFE_DAYS = 7;
+const RECENT_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// discover で同じ投稿者・同じジャンルが続くたびに掛ける係数
+const AUTHOR_PENALTY = 0.5;
+const GENRE_PENALTY = 0.7;
+
+const timeOf = (p: FeedPost) => (p.created_at ? Date.parse(p.created_at) : 0);
+
+/**
+ * おすすめ度 × 新しさ（半減期 7 日）。新しさは候補の中で一番新しい投稿を基準にするので、
+ * しばらく投稿のないフィードでもスコアが 0 に潰れない
+ */
+export function rankTop<P extends FeedPost>(posts: P[]): RankedPost<P>[] {
+  const newest = Math.max(0, ...posts.map(timeOf));
+
+  return posts
+    .map((post) => {
+      const ageDays = Math.max(0, (newest - timeOf(post)) / DAY_MS);
+      const rating = post.recommend_score ?? DEFAULT_SCORE;
+      const reasons: string[] = [];
+      if (post.recommend_score !== null && post.recommend_score >= HIGH_SCORE) {
+        reasons.push(`Rated ${post.recommend_score}/5`);
+      }
+      if (ageDays < RECENT_DAYS) reasons.push("One of the newest posts in this feed");
+      return { post, score: round2((rating / 5) * Math.pow(0.5, ageDays / HALF_LIFE_DAYS)), reasons };
+    })
+    .sort((a, b) => b.score - a.score || timeOf(b.post) - timeOf(a.post) || b.post.id.localeCompare(a.post.id));
+}
+
+/**
+ * top のスコアから、既に選んだ投稿者・ジャンルの分だけ割り引きながら 1 件ずつ選ぶ。
+ * 多く投稿する 1 人や 1 ジャンルで上位が埋まらないようにする
+ */
+export function diversify<P extends FeedPost>(
+  ranked: RankedPost<P>[],
+  genreOf: (post: P) => string | null
+): RankedPost<P>[] {
+  const rest = [...ranked];
+  const authorCount: Record<string, number> = {};
+  const genreCount: Record<string, number> = {};
+  const picked: RankedPost<P>[] = [];
+
+  const adjusted = (r: RankedPost<P>) => {
+    const genre = genreOf(r.post);
+    return (
+      r.score *
+      Math.pow(AUTHOR_PENALTY, authorCount[r.post.user_id] ?? 0) *
+      Math.pow(GENRE_PENALTY, genre ? genreCount[genre] ?? 0 : 0)
+    );
+  };
+
+  while (rest.length > 0) {
+    // 同点なら元の順（top の順）を優先する
+    let best = 0;
+    for (let i = 1; i < rest.length; i++) if (adjusted(rest[i]) > adjusted(rest[best])) best = i;
+    const [r] = rest.splice(best, 1);
+
+    const genre = genreOf(r.post);
+    const reasons = [...r.reasons];
+    if (!authorCount[r.post.user_id]) reasons.push("First post from this author in the feed");
+    if (genre && !genreCount[genre]) reasons.push(`Adds variety: ${genre}`);
+
+    authorCount[r.post.user_id] = (authorCount[r.post.user_id] ?? 0) + 1;
+    if (genre) genreCount[genre] = (genreCount[genre] ?? 0) + 1;
+    picked.push({ post: r.post, score: round2(adjusted(r)), reasons });
+  }
+  return picked;
+}
+
+/**
+ * どのモードでも付く理由（誰の投稿か、since 以降か）
+ */
+export function relationReasons(
+  post: FeedPost & { author: { username: string | null } | null },
+  ownerId: string,
+  since?: string
+): string[] {
+  const who = post.author?.username ? `@${post.author.username}` : "an account";
+  const reasons = [
+    post.user_id === ownerId ? "Posted by the feed owner" : `Posted by ${who}, whom the feed owner follows`,
+  ];
+  if (since) reasons.push(`New since ${since}`);
+  return reasons;
+}
@@ -0,0 +1,135 @@
+// lib/genres.ts
+// ジャンル名の表記ゆれを寄せる（"ラーメン" / "ramen" / "拉麺" → ramen）。DB アクセスはしない
+import { normalizeJa, toKatakana } from "@/lib/textSearch";
+
+type GenrePlace = {
+  place_id: string;
+  primary_genre: string | null;
+  genre_tags: string[] | null;
+  genre_confidence: number | null;
+};
+
+export type GenreMatch = "primary" | "any";
+
+export type GenreBucket = {
+  genre: string;
+  place_count: number;
+  post_count: number;
+  /** DB に入っていた、この genre に寄せた元の表記 */
+  aliases: string[];
+};
+
+// 代表名は DB の primary_genre / genre_tags に多い英語の slug に合わせる。ひらがな/カタカナ・全角/半角の違いは
+// genreKey が吸収するので、ここにはどちらか一方だけ書けばよい
+const GENRE_ALIASES: Record<string, string[]> = {
+  ramen: ["ラーメン", "拉麺", "中華そば", "つけ麺", "ramen_restaurant"],
+  sushi: ["寿司", "鮨", "鮓", "すし", "sushi_restaurant"],
+  cafe: ["カフェ", "喫茶", "喫茶店", "coffee", "coffee_shop", "コーヒー", "珈琲"],
+  izakaya: ["居酒屋"],
+  yakiniku: ["焼肉", "焼き肉"],
+  yakitori: ["焼き鳥", "焼鳥"],
+  udon: ["うどん", "饂飩"],
+  soba: ["そば", "蕎麦"],
+  tempura: ["天ぷら", "天麩羅"],
+  tonkatsu: ["とんかつ", "豚カツ"],
+  curry: ["カレー"],
+  okonomiyaki: ["お好み焼き", "お好み焼"],
+  takoyaki: ["たこ焼き", "たこ焼"],
+  gyoza: ["餃子", "ギョーザ"],
+  chinese: ["中華", "中華料理", "chinese_restaurant"],
+  korean: ["韓国料理", "korean_restaurant"],
+  italian: ["イタリアン", "イタリア料理", "italian_restaurant"],
+  french: ["フレンチ", "フランス料理", "french_restaurant"],
+  washoku: ["和食", "日本料理", "japanese", "japanese_restaurant"],
+  burger: ["ハンバーガー", "hamburger", "hamburger_restaurant"],
+  pizza: ["ピザ", "pizza_restaurant"],
+  steak: ["ステーキ", "steak_house"],
+  bakery: ["パン", "パン屋", "ベーカリー"],
+  sweets: ["スイーツ", "デザート", "dessert", "甘味", "dessert_shop"],
+  bar: ["バー"],
+};
+
+// 表記だけを寄せたキー（NFKC・小文字・カタカナ・空白/ハイフンは _）
+const genreKey = (raw: string) =>
+  toKatakana(normalizeJa(raw))
+    .replace(/[\s\-‐・]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+const ALIAS_INDEX: Record<string, string> = {};
+for (const [genre, aliases] of Object.entries(GENRE_ALIASES)) {
+  for (const alias of [genre, ...aliases]) ALIAS_INDEX[genreKey(alias)] = genre;
+}
+
+/**
+ * 代表名に寄せる。表に無いものは表記だけ寄せて返す
+ */
+export function normalizeGenre(raw: string): string {
+  const key = genreKey(raw);
+  return ALIAS_INDEX[key] ?? key;
+}
+
+/**
+ * DB の列と突き合わせるための、同じ代表名に寄る表記（入力そのもの・代表名・表の別名）。
+ * 表に無いジャンルは入力と、表記だけ寄せたものの 2 つ
+ */
+export function genreSpellings(raw: string): string[] {
+  const genre = normalizeGenre(raw);
+  return Array.from(new Set([raw, genre, ...(GENRE_ALIASES[genre] ?? [])]));
+}
+
+// ツールの primary_genre / genre_tags 入力を、表記ゆれを広げた places の絞り込みにする
+export const genreFilter = (input: { primary_genre?: string; genre_tags?: string[] }) => ({
+  primary_genre: input.primary_genre ? genreSpellings(input.primary_genre) : undefined,
+  genre_tags: input.genre_tags?.length ? input.genre_tags.flatMap(genreSpellings) : undefined,
+});
+
+// 店のジャンル（代表名）。match = "any" なら primary_genre と genre_tags の両方
+export function genresOf(pl: GenrePlace, match: GenreMatch): string[] {
+  const raw = match === "primary" ? [pl.primary_genre] : [pl.primary_genre, ...(pl.genre_tags ?? [])];
+  return Array.from(new Set(raw.flatMap((g) => (g && genreKey(g) ? [normalizeGenre(g)] : []))));
+}
+
+/**
+ * min_confidence を指定したら、genre_confidence がそれ未満・不明の店は数えない
+ */
+export const meetsConfidence = (pl: GenrePlace, minConfidence: number | undefined) =>
+  minConfidence === undefined || (pl.genre_confidence !== null && pl.genre_confidence >= minConfidence);
+
+/**
+ * ジャンルごとの店数・投稿数。primary_genre と genre_tags を別々に数え、店数の多い順
+ */
+export function summarizeGenres(
+  places: GenrePlace[],
+  postCounts: Record<string, number>
+): { primary_genres: GenreBucket[]; genre_tags: GenreBucket[] } {
+  const bucketize = (rawOf: (pl: GenrePlace) => (string | null)[]) => {
+    const buckets: Record<string, { places: Set<string>; post_count: number; aliases: Set<string> }> = {};
+    for (const pl of places) {
+      const seen = new Set<string>();
+      for (const raw of rawOf(pl)) {
+        if (!raw || !genreKey(raw)) continue;
+        const genre = normalizeGenre(raw);
+        const b = (buckets[genre] ??= { places: new Set(), post_count: 0, aliases: new Set() });
+        b.aliases.add(raw);
+        // 同じ店に同じジャンルの表記が 2 つあっても 1 回だけ数える
+        if (seen.has(genre)) continue;
+        seen.add(genre);
+        b.places.add(pl.place_id);
+        b.post_count += postCounts[pl.place_id] ?? 0;
+      }
+    }
+    return Object.entries(buckets)
+      .map(([genre, b]) => ({
+        genre,
+        place_count: b.places.size,
+        post_count: b.post_count,
+        aliases: Array.from(b.aliases).sort(),
+      }))
+      .sort((a, b) => b.place_count - a.place_count || b.post_count - a.post_count || a.genre.localeCompare(b.genre));
+  };
+
+  return {
+    primary_genres: bucketize((pl) => [pl.primary_genre]),
+    genre_tags: bucketize((pl) => pl.genre_tags ?? []),
+  };
+}
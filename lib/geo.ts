@@ -0,0 +1,63 @@
+// lib/geo.ts
+
+const EARTH_RADIUS_M = 6_371_000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export type LatLng = { lat: number; lng: number };
+
+// 2点間の大円距離（メートル）
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * 中心から radiusM を含む緯度経度の矩形。DB 側はこれで粗く絞り、正確な距離は haversine で判定する。
+ */
+export function boundingBox(center: LatLng, radiusM: number) {
+  const dLat = (radiusM / EARTH_RADIUS_M) * (180 / Math.PI);
+  const cosLat = Math.max(Math.cos(toRad(center.lat)), 1e-6);
+  const dLng = dLat / cosLat;
+  return {
+    minLat: center.lat - dLat,
+    maxLat: center.lat + dLat,
+    minLng: center.lng - dLng,
+    maxLng: center.lng + dLng,
+  };
+}
+
+export type Cluster<T> = { center: LatLng; radius_m: number; weight: number; members: T[] };
+
+/**
+ * 重い点から順に、中心が radiusM 以内にある最初のクラスタへ入れ、無ければ新しいクラスタを作る（貪欲法）。
+ * 中心は重み付き平均で更新する。重いクラスタ順に返す
+ */
+export function clusterPoints<T extends LatLng>(
+  points: T[],
+  radiusM: number,
+  weightOf: (p: T) => number = () => 1
+): Cluster<T>[] {
+  const clusters: Cluster<T>[] = [];
+
+  for (const p of [...points].sort((a, b) => weightOf(b) - weightOf(a))) {
+    const w = weightOf(p);
+    const hit = clusters.find((c) => haversineMeters(c.center, p) <= radiusM);
+    if (!hit) {
+      clusters.push({ center: { lat: p.lat, lng: p.lng }, radius_m: 0, weight: w, members: [p] });
+      continue;
+    }
+    const total = hit.weight + w;
+    hit.center = {
+      lat: (hit.center.lat * hit.weight + p.lat * w) / total,
+      lng: (hit.center.lng * hit.weight + p.lng * w) / total,
+    };
+    hit.weight = total;
+    hit.members.push(p);
+  }
+
+  for (const c of clusters) c.radius_m = Math.max(0, ...c.members.map((m) => haversineMeters(c.center, m)));
+  return clusters.sort((a, b) => b.weight - a.weight);
+}
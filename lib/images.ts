@@ -0,0 +1,224 @@
+// lib/images.ts
+// posts.image_variants を型付きに読み直し、指定の大きさを選ぶ。include_images のときはサムネイルを
+// MCP の image（入りきらなければ resource_link）にする
+import { z } from "zod";
+import { errorFields, log } from "@/lib/log";
+import type { ResourceLink } from "@/lib/resources";
+import { IMAGE_SIZES, type ImageSize, type ImageVariant, type PostImage } from "@/lib/schemas";
+import { supabaseUrl } from "@/lib/supabaseServer";
+
+export type ImageBlock = { type: "image"; data: string; mimeType: string };
+
+// 埋め込む画像（base64 後）の合計の既定と上限
+export const DEFAULT_IMAGE_PAYLOAD_BYTES = 512 * 1024;
+export const MAX_IMAGE_PAYLOAD_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 5000;
+
+// posts.* の入力に足す
+export const imageOptionsInput = {
+  image_size: z.enum(IMAGE_SIZES).optional().describe("images に入れる大きさ（既定 medium。無ければ近い大きさ）"),
+  include_images: z
+    .boolean()
+    .optional()
+    .describe("各投稿の 1 枚目のサムネイルを image コンテンツとして返す（入りきらない分は resource_link）"),
+  max_image_bytes: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_IMAGE_PAYLOAD_BYTES)
+    .optional()
+    .describe("埋め込む画像の合計バイト数（base64 後、既定 512KB）"),
+};
+
+// 列の名前の揺れ（thumb / full など）を吸収する
+const SIZE_KEYS: Record<ImageSize, string[]> = {
+  thumbnail: ["thumbnail", "thumb", "small", "sm"],
+  medium: ["medium", "md", "display"],
+  original: ["original", "orig", "full", "large", "lg"],
+};
+
+// 指定の大きさが無いときに代わりに使う順
+const FALLBACK: Record<ImageSize, ImageSize[]> = {
+  thumbnail: ["thumbnail", "medium", "original"],
+  medium: ["medium", "original", "thumbnail"],
+  original: ["original", "medium", "thumbnail"],
+};
+
+const MIME_BY_EXT: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isHttpUrl = (v: unknown): v is string => typeof v === "string" && /^https?:\/\//i.test(v) && URL.canParse(v);
+const numberOf = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v > 0 ? v : null);
+const stringOf = (v: unknown) => (typeof v === "string" && v ? v : null);
+
+// "https://..." か {url, width, height, ...}。http(s) の URL が無ければ null
+function parseVariant(raw: unknown): ImageVariant | null {
+  if (isHttpUrl(raw)) return { url: raw, width: null, height: null, mime_type: null, bytes: null };
+  if (!isRecord(raw)) return null;
+  const url = raw.url ?? raw.src;
+  if (!isHttpUrl(url)) return null;
+  return {
+    url,
+    width: numberOf(raw.width ?? raw.w),
+    height: numberOf(raw.height ?? raw.h),
+    mime_type: stringOf(raw.mime_type ?? raw.mimeType ?? raw.content_type),
+    bytes: numberOf(raw.bytes ?? raw.size),
+  };
+}
+
+function parseImage(raw: unknown): PostImage {
+  if (isHttpUrl(raw)) return { thumbnail: null, medium: null, original: parseVariant(raw) };
+  const variantOf = (size: ImageSize) => {
+    if (!isRecord(raw)) return null;
+    const key = SIZE_KEYS[size].find((k) => raw[k] !== undefined && raw[k] !== null);
+    return key ? parseVariant(raw[key]) : null;
+  };
+  return { thumbnail: variantOf("thumbnail"), medium: variantOf("medium"), original: variantOf("original") };
+}
+
+// 画像ごとの配列にそろえる。[{thumbnail, ...}] / {images: [...]} / {thumbnail: [...], original: [...]} を受ける
+function imageEntries(raw: unknown): unknown[] {
+  if (typeof raw === "string") {
+    try {
+      return imageEntries(JSON.parse(raw));
+    } catch {
+      return [];
+    }
+  }
+  if (Array.isArray(raw)) return raw;
+  if (!isRecord(raw)) return [];
+  if (Array.isArray(raw.images)) return raw.images;
+
+  const columns = Object.entries(raw).filter((e): e is [string, unknown[]] => Array.isArray(e[1]));
+  if (columns.length === 0) return [raw];
+  const count = Math.max(...columns.map(([, v]) => v.length));
+  return Array.from({ length: count }, (_, i) => Object.fromEntries(columns.map(([k, v]) => [k, v[i]])));
+}
+
+/**
+ * image_variants を画像ごとの {thumbnail, medium, original} にする。読めない形は捨てる。
+ * variants の無い画像は image_urls を original として補う
+ */
+export function parseImageVariants(raw: unknown, imageUrls: string[] | null): PostImage[] {
+  const parsed = imageEntries(raw).map(parseImage);
+  const urls = imageUrls ?? [];
+  const images: PostImage[] = [];
+  for (let i = 0; i < Math.max(parsed.length, urls.length); i++) {
+    const img = parsed[i] ?? { thumbnail: null, medium: null, original: null };
+    if (!img.original && isHttpUrl(urls[i])) img.original = parseVariant(urls[i]);
+    if (img.thumbnail || img.medium || img.original) images.push(img);
+  }
+  return images;
+}
+
+// 指定の大きさ、無ければ近い大きさ
+export function pickVariant(img: PostImage, size: ImageSize): (ImageVariant & { size: ImageSize }) | null {
+  for (const s of FALLBACK[size]) {
+    const v = img[s];
+    if (v) return { ...v, size: s };
+  }
+  return null;
+}
+
+const mimeOf = (v: ImageVariant) =>
+  v.mime_type ?? MIME_BY_EXT[new URL(v.url).pathname.split(".").pop()?.toLowerCase() ?? ""] ?? "image/jpeg";
+
+/**
+ * 画像を取ってくる。maxBytes を超える・画像でない・取れないときは null
+ */
+export type ImageFetcher = (url: string, maxBytes: number) => Promise<{ data: Buffer; mimeType: string } | null>;
+
+// MCP_IMAGE_HOSTS（カンマ区切り）、無ければ Supabase のホストの画像だけ取りに行く
+function allowedHosts(): Set<string> {
+  const raw = process.env.MCP_IMAGE_HOSTS;
+  if (raw) return new Set(raw.split(",").map((h) => h.trim().toLowerCase()).filter(Boolean));
+  const sb = supabaseUrl();
+  return new Set(sb ? [new URL(sb).host.toLowerCase()] : []);
+}
+
+// 本文を maxBytes まで読む。超えたらそこで読むのをやめて null
+async function readAtMost(res: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!res.body) return null;
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+// リダイレクトは辿らない（許可したホストから別のホストへ飛ばされないように）。3xx は取れなかった扱い
+const httpImageFetcher: ImageFetcher = async (url, maxBytes) => {
+  try {
+    if (!allowedHosts().has(new URL(url).host.toLowerCase())) return null;
+    const res = await fetch(url, { redirect: "manual", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    const mimeType = res.headers.get("content-type")?.split(";")[0].trim() ?? "";
+    const tooLarge = Number(res.headers.get("content-length") ?? 0) > maxBytes;
+    if (!res.ok || !mimeType.startsWith("image/") || tooLarge) {
+      await res.body?.cancel();
+      return null;
+    }
+    const data = await readAtMost(res, maxBytes);
+    return data ? { data, mimeType } : null;
+  } catch (e) {
+    log.debug("mcp.image_fetch_error", { url, error: errorFields(e) });
+    return null;
+  }
+};
+
+let fetcher: ImageFetcher | null = null;
+
+// テストなどで差し替える。null で既定（HTTP）に戻す
+export function setImageFetcher(next: ImageFetcher | null) {
+  fetcher = next;
+}
+
+export function getImageFetcher(): ImageFetcher {
+  fetcher ??= httpImageFetcher;
+  return fetcher;
+}
+
+/**
+ * 各投稿の 1 枚目のサムネイルを image にする。base64 後の合計が maxBytes を超える分と、
+ * 取ってこれなかった分は resource_link（URL だけ）で返す
+ */
+export async function imageBlocks(
+  posts: { id: string; image_variants: PostImage[] }[],
+  maxBytes: number
+): Promise<(ImageBlock | ResourceLink)[]> {
+  const blocks: (ImageBlock | ResourceLink)[] = [];
+  let remaining = maxBytes;
+  for (const p of posts) {
+    const thumb = p.image_variants[0] && pickVariant(p.image_variants[0], "thumbnail");
+    if (!thumb) continue;
+
+    // base64 で 4/3 倍になる
+    const rawBudget = Math.floor((remaining * 3) / 4);
+    const fetched =
+      rawBudget > 0 && (thumb.bytes === null || thumb.bytes <= rawBudget)
+        ? await getImageFetcher()(thumb.url, rawBudget)
+        : null;
+    if (fetched) {
+      const data = fetched.data.toString("base64");
+      remaining -= data.length;
+      blocks.push({ type: "image", data, mimeType: fetched.mimeType });
+    } else {
+      blocks.push({ type: "resource_link", uri: thumb.url, name: `${p.id}-thumbnail`, mimeType: mimeOf(thumb) });
+    }
+  }
+  return blocks;
+}
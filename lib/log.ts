@@ -0,0 +1,51 @@
+// lib/log.ts
+// 1 行 1 JSON の構造化ログ。Vercel などのログ基盤でそのまま検索・集計できる形にする
+import { currentTrace } from "@/lib/tracing";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+type LogSink = (level: LogLevel, line: string) => void;
+
+const consoleSink: LogSink = (level, line) =>
+  (level === "error" || level === "warn" ? console.error : console.log)(line);
+
+let sink: LogSink | null = null;
+
+// テストなどで出力先を差し替える。null で console に戻す
+export function setLogSink(next: LogSink | null) {
+  sink = next;
+}
+
+// MCP_LOG_LEVEL（既定 info）
+const minLevel = (): number => LEVELS[process.env.MCP_LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+// Error はそのままだと {} になるので name / message / stack を取り出す
+export function errorFields(e: unknown): LogFields {
+  if (e instanceof Error) return { name: e.name, message: e.message, stack: e.stack };
+  return { message: String(e) };
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}) {
+  if (LEVELS[level] < minLevel()) return;
+  // ツールの中から出したログも、呼び出しログ（mcp.call）と request_id で突き合わせられるようにする
+  const requestId = currentTrace()?.requestId;
+  const line = JSON.stringify({
+    ts: new Date().toISOString(),
+    level,
+    msg,
+    ...(requestId ? { request_id: requestId } : {}),
+    ...fields,
+  });
+  (sink ?? consoleSink)(level, line);
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
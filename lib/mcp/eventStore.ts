@@ -0,0 +1,75 @@
+// lib/mcp/eventStore.ts
+// SSE で送ったメッセージを覚えておき、切れたストリームを Last-Event-ID から再開できるようにする。
+// セッションごとに 1 つ作り、セッションが終われば一緒に捨てる
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+type StoredEvent = { streamId: string; seq: number; message: JSONRPCMessage; storedAt: number };
+
+export type EventStoreOptions = {
+  /** セッション内の全ストリーム合計で覚えておくイベント数 */
+  maxEvents?: number;
+  /** これより古いイベントは再送しない */
+  ttlMs?: number;
+  now?: () => number;
+};
+
+export const DEFAULT_EVENT_TTL_MS = 5 * 60_000;
+export const DEFAULT_MAX_EVENTS = 1000;
+
+// event id は "<streamId>_<連番>"。streamId 自体に "_" が入ることがある（"_GET_stream"）ので最後の "_" で切る
+const eventIdOf = (e: StoredEvent) => `${e.streamId}_${e.seq}`;
+
+function parseEventId(eventId: string) {
+  const i = eventId.lastIndexOf("_");
+  const seq = Number(eventId.slice(i + 1));
+  return i > 0 && Number.isInteger(seq) ? { streamId: eventId.slice(0, i), seq } : null;
+}
+
+export function createMemoryEventStore(opts: EventStoreOptions = {}): EventStore {
+  const maxEvents = opts.maxEvents ?? DEFAULT_MAX_EVENTS;
+  const ttlMs = opts.ttlMs ?? DEFAULT_EVENT_TTL_MS;
+  const now = opts.now ?? Date.now;
+
+  // Map は挿入順なので、先頭から捨てれば古い順になる
+  const events = new Map<string, StoredEvent>();
+  // 連番はイベントを捨てても戻さない（id を使い回すと古い Last-Event-ID から違う位置で再開してしまう）。
+  // ストア自体がセッションと一緒に捨てられるので、それまで持っておく
+  const lastSeq = new Map<string, number>();
+
+  const prune = () => {
+    const cutoff = now() - ttlMs;
+    for (const [id, e] of events) {
+      if (events.size <= maxEvents && e.storedAt >= cutoff) break;
+      events.delete(id);
+    }
+  };
+
+  return {
+    async storeEvent(streamId, message) {
+      const seq = (lastSeq.get(streamId) ?? 0) + 1;
+      lastSeq.set(streamId, seq);
+      const event = { streamId, seq, message, storedAt: now() };
+      events.set(eventIdOf(event), event);
+      prune();
+      return eventIdOf(event);
+    },
+
+    // 覚えていない（期限切れ・別セッションの）id は undefined にして 400 で返させる
+    async getStreamIdForEventId(eventId) {
+      prune();
+      return events.has(eventId) ? parseEventId(eventId)?.streamId : undefined;
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      prune();
+      const last = parseEventId(lastEventId);
+      if (!last || !events.has(lastEventId)) throw new Error("Unknown or expired event id");
+
+      for (const e of Array.from(events.values())) {
+        if (e.streamId === last.streamId && e.seq > last.seq) await send(eventIdOf(e), e.message);
+      }
+      return last.streamId;
+    },
+  };
+}
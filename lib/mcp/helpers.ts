@@ -0,0 +1,132 @@
+// lib/mcp/helpers.ts
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode as RpcErrorCode,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ADMIN_SCOPE, WRITE_SCOPE, hasScope } from "@/lib/auth";
+import type { Cursor } from "@/lib/cursor";
+import { getDataStore, type DataStore } from "@/lib/data";
+import { forbidden, toToolError, type ErrorCode } from "@/lib/errors";
+import type { ImageBlock } from "@/lib/images";
+import { errorFields, log } from "@/lib/log";
+import type { ResourceLink } from "@/lib/resources";
+import type { PostRow } from "@/lib/schemas";
+import { createViewer, resolveViewerId, type Viewer } from "@/lib/viewer";
+
+export const clampLimit = (n: unknown, max = 20) => {
+  const v = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(v) || v <= 0) return 10;
+  return Math.min(Math.floor(v), max);
+};
+
+export const uniq = <T,>(arr: T[]) => Array.from(new Set(arr));
+export const jsonText = (obj: unknown) => JSON.stringify(obj, null, 2);
+
+// structuredContent と、それを読めないクライアント向けの text を両方返す。links は gourmeet:// リソースへの導線と、
+// include_images のときの画像
+export const toolResult = <T extends Record<string, unknown>>(obj: T, links: (ResourceLink | ImageBlock)[] = []) => ({
+  content: [{ type: "text" as const, text: jsonText(obj) }, ...links],
+  structuredContent: obj,
+});
+
+// isError の結果。structuredContent.error.code で機械的に判別できる
+export function toolError(e: unknown) {
+  const err = toToolError(e);
+  const error = {
+    code: err.code,
+    message: err.message,
+    ...(err.retryAfterSec !== undefined ? { retry_after_s: err.retryAfterSec } : {}),
+  };
+  return {
+    content: [{ type: "text" as const, text: `${err.code}: ${err.message}` }],
+    structuredContent: { error },
+    isError: true,
+  };
+}
+
+// ツールのコールバックを包み、投げられたものはすべて toolError の形で返す
+export const guard =
+  <A extends unknown[], R>(cb: (...args: A) => Promise<R>) =>
+  async (...args: A): Promise<R | ReturnType<typeof toolError>> => {
+    try {
+      return await cb(...args);
+    } catch (e) {
+      return toolError(e);
+    }
+  };
+
+const RPC_CODES: Partial<Record<ErrorCode, number>> = {
+  NOT_FOUND: -32002, // MCP の resource not found
+  INVALID_ARGUMENT: RpcErrorCode.InvalidParams,
+};
+
+// リソース・プロンプト用。JSON-RPC エラーとして返し、data.code に ErrorCode を入れる
+export const guardRequest =
+  <A extends unknown[], R>(cb: (...args: A) => Promise<R>) =>
+  async (...args: A): Promise<R> => {
+    try {
+      return await cb(...args);
+    } catch (e) {
+      if (e instanceof McpError) throw e;
+      const err = toToolError(e);
+      throw new McpError(RPC_CODES[err.code] ?? RpcErrorCode.InternalError, err.message, { code: err.code });
+    }
+  };
+
+export type ToolContext = { store: DataStore; viewer: Viewer };
+
+// ツール / リソース / プロンプトの各呼び出しで、データストアと viewer を用意する
+export function toolContext(extra: { authInfo?: AuthInfo }): ToolContext {
+  const store = getDataStore();
+  return { store, viewer: createViewer(store, resolveViewerId(extra)) };
+}
+
+/**
+ * 書き込みツール用。write スコープを持つ認証ユーザー本人としてだけ書ける。
+ * スコープが無いクライアントには tools/list に出していないが、名前を知っていれば呼べるのでここでも確かめる
+ */
+export function writerContext(extra: { authInfo?: AuthInfo }): ToolContext & { userId: string } {
+  if (!hasScope(extra.authInfo, WRITE_SCOPE)) throw forbidden("This client is not allowed to write");
+  const ctx = toolContext(extra);
+  if (!ctx.viewer.id) throw forbidden("Sign in to write");
+  return { ...ctx, userId: ctx.viewer.id };
+}
+
+/**
+ * 運用向けツール用。admin スコープを持つクライアントだけ（viewer の制限は受けない前提で使う）
+ */
+export function adminContext(extra: { authInfo?: AuthInfo }): ToolContext {
+  if (!hasScope(extra.authInfo, ADMIN_SCOPE)) throw forbidden("This client is not allowed to use admin tools");
+  return toolContext(extra);
+}
+
+export type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * 重いツールの途中経過を notifications/progress で送る。
+ * クライアントが _meta.progressToken を付けていないとき（と、SSE を使わないステートレス応答）は何もしない
+ */
+export function progressReporter(extra: RequestExtra, total?: number) {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  return async (message: string) => {
+    if (progressToken === undefined) return;
+    progress += 1;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, ...(total !== undefined ? { total } : {}), message },
+      });
+    } catch (e) {
+      // 途中経過が送れなくてもツール自体は続ける
+      log.debug("mcp.progress_error", { error: errorFields(e) });
+    }
+  };
+}
+
+// posts は (created_at desc, id desc) の keyset で辿る
+export const postKey = (p: PostRow): Cursor => ({ k: p.created_at, i: p.id });
@@ -0,0 +1,172 @@
+// lib/mcp/instrument.ts
+// JSON-RPC 呼び出しごとの構造化ログとメトリクス。
+// transport の onmessage / send を包み、リクエストとレスポンスを id で突き合わせて計測する
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ClientRequestSchema,
+  ErrorCode as RpcErrorCode,
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { log } from "@/lib/log";
+import { rpcCalls, rpcDuration, rpcResponseSize } from "@/lib/metrics";
+import { createTrace, runWithTrace, type Span, type Trace } from "@/lib/tracing";
+
+export type RequestContext = { requestId: string; clientId?: string; sessionId?: string };
+
+// 上流（ロードバランサなど）が付けた X-Request-Id があれば引き継ぐ
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function requestIdOf(req: IncomingMessage) {
+  const header = req.headers["x-request-id"];
+  const id = Array.isArray(header) ? header[0] : header;
+  return id && REQUEST_ID.test(id) ? id : randomUUID();
+}
+
+// セッションの transport はリクエストをまたいで使うので、HTTP リクエストごとの情報はこちらで渡す
+const requestScope = new AsyncLocalStorage<RequestContext>();
+
+export const withRequestContext = <T,>(ctx: RequestContext, fn: () => T): T => requestScope.run(ctx, fn);
+
+export type CallRecord = {
+  rpcId: string | number | null;
+  method: string;
+  tool?: string;
+  durationMs: number;
+  sizeBytes: number;
+  /** 成功なら undefined。ツールエラーは structuredContent.error.code、JSON-RPC エラーは data.code か RPC_<code> */
+  errorCode?: string;
+  /** メトリクスのラベルは有限にしたいので、実在が確かなメソッド名・ツール名だけ使う */
+  knownMethod: boolean;
+  /** SDK が返したエラー（未知のツール・入力検証）は tool ラベルに使わない */
+  knownTool: boolean;
+  trace?: Trace;
+};
+
+type Pending = { ctx: RequestContext; method: string; tool?: string; startedAt: number; trace: Trace };
+
+const toolNameOf = (params: unknown) => {
+  const name = (params as { name?: unknown } | undefined)?.name;
+  return typeof name === "string" ? name : undefined;
+};
+
+function outcomeOf(message: JSONRPCMessage): { errorCode?: string; knownMethod: boolean; knownTool: boolean } {
+  if (isJSONRPCErrorResponse(message)) {
+    const data = message.error.data as { code?: unknown } | undefined;
+    return {
+      errorCode: typeof data?.code === "string" ? data.code : `RPC_${message.error.code}`,
+      knownMethod: message.error.code !== RpcErrorCode.MethodNotFound,
+      knownTool: false,
+    };
+  }
+  if (isJSONRPCResultResponse(message) && message.result.isError) {
+    const code = (message.result.structuredContent as { error?: { code?: unknown } } | undefined)?.error?.code;
+    // guard() 経由のエラーは必ず code を持つ。持たないのは SDK 側で弾かれたもの
+    return typeof code === "string"
+      ? { errorCode: code, knownMethod: true, knownTool: true }
+      : { errorCode: "ERROR", knownMethod: true, knownTool: false };
+  }
+  return { knownMethod: true, knownTool: true };
+}
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+// 1 呼び出しぶんをログとメトリクスに記録する（レート制限で transport に渡さなかったものもここを通す）
+export function recordCall(ctx: RequestContext, call: CallRecord) {
+  const status = call.errorCode ?? "ok";
+  const labels = {
+    method: call.knownMethod ? call.method : "other",
+    tool: call.tool && call.knownTool ? call.tool : "",
+    status,
+  };
+
+  rpcCalls.inc(labels);
+  rpcDuration.observe({ method: labels.method, tool: labels.tool }, call.durationMs / 1000);
+  rpcResponseSize.observe({ method: labels.method, tool: labels.tool }, call.sizeBytes);
+
+  const spans: Span[] = call.trace?.spans ?? [];
+  const fields = {
+    request_id: ctx.requestId,
+    client_id: ctx.clientId,
+    ...(ctx.sessionId ? { session_id: ctx.sessionId } : {}),
+    rpc_id: call.rpcId,
+    method: call.method,
+    tool: call.tool,
+    duration_ms: round(call.durationMs),
+    size_bytes: call.sizeBytes,
+    status,
+    ...(call.errorCode ? { error_code: call.errorCode } : {}),
+    ...(spans.length > 0 ? { query_count: spans.filter((s) => s.name.startsWith("db.")).length, spans } : {}),
+    ...(call.trace?.dropped ? { spans_dropped: call.trace.dropped } : {}),
+  };
+
+  if (call.errorCode === "INTERNAL" || call.errorCode === "UPSTREAM_UNAVAILABLE") log.warn("mcp.call", fields);
+  else log.info("mcp.call", fields);
+}
+
+/**
+ * server.connect(transport) の後に呼ぶ（connect が onmessage を差し替えるため）。
+ * handleRequest は withRequestContext の中で呼ぶ
+ */
+export function instrumentTransport(transport: Transport) {
+  const pending = new Map<string | number, Pending>();
+
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if (!isJSONRPCRequest(message)) return onmessage?.(message, extra);
+
+    const ctx = { ...(requestScope.getStore() ?? { requestId: "-" }), sessionId: transport.sessionId };
+    const call: Pending = {
+      ctx,
+      method: message.method,
+      tool: message.method === "tools/call" ? toolNameOf(message.params) : undefined,
+      startedAt: performance.now(),
+      trace: createTrace(ctx.requestId),
+    };
+    pending.set(message.id, call);
+    // ハンドラの中で呼ばれる traced() がこの呼び出しのトレースに積まれる
+    runWithTrace(call.trace, () => onmessage?.(message, extra));
+  };
+
+  const send = transport.send.bind(transport);
+  transport.send = async (message, options) => {
+    if ((isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) && message.id !== undefined) {
+      const call = pending.get(message.id);
+      if (call) {
+        pending.delete(message.id);
+        recordCall(call.ctx, {
+          rpcId: message.id,
+          method: call.method,
+          tool: call.tool,
+          durationMs: performance.now() - call.startedAt,
+          sizeBytes: Buffer.byteLength(JSON.stringify(message)),
+          trace: call.trace,
+          ...outcomeOf(message),
+        });
+      }
+    }
+    return send(message, options);
+  };
+}
+
+// レート制限などで transport に渡さずに返したメッセージを記録する
+export function recordRejected(ctx: RequestContext, body: unknown, errorCode: string) {
+  for (const m of Array.isArray(body) ? body : [body]) {
+    if (!isJSONRPCRequest(m)) continue;
+    recordCall(ctx, {
+      rpcId: m.id,
+      method: m.method,
+      tool: m.method === "tools/call" ? toolNameOf(m.params) : undefined,
+      durationMs: 0,
+      sizeBytes: 0,
+      errorCode,
+      knownMethod: ClientRequestSchema.safeParse(m).success,
+      knownTool: false,
+    });
+  }
+}
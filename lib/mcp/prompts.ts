@@ -0,0 +1,181 @@
+// lib/mcp/prompts.ts
+// よく使うワークフロー
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { genreFilter, normalizeGenre } from "@/lib/genres";
+import { clampLimit, guardRequest, jsonText, toolContext } from "@/lib/mcp/helpers";
+import { computePlaceStats, enrichPosts, fetchPlacePostStats, fetchPlacesWithin } from "@/lib/mcp/queries";
+import { resourceUri } from "@/lib/resources";
+import type { EnrichedPost, PlaceSummary } from "@/lib/schemas";
+
+type PromptBlock = { label: string; data: unknown; uri?: string };
+
+// 指示文 + 参照データ。URI のあるものは embedded resource として渡す
+const promptMessages = (instructions: string, blocks: PromptBlock[]) => ({
+  messages: [
+    { role: "user" as const, content: { type: "text" as const, text: instructions } },
+    ...blocks.map((b) => ({
+      role: "user" as const,
+      content: b.uri
+        ? {
+            type: "resource" as const,
+            resource: { uri: b.uri, mimeType: "application/json", text: jsonText(b.data) },
+          }
+        : { type: "text" as const, text: `### ${b.label}\n${jsonText(b.data)}` },
+    })),
+  ],
+});
+
+const LAT_LNG = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+export function registerPrompts(server: McpServer) {
+  server.registerPrompt(
+    "plan_dinner",
+    {
+      title: "Plan a group dinner",
+      description: "エリア・人数・予算から、グループでの食事先候補を比較して提案します",
+      argsSchema: {
+        area: z.string().describe("地名（住所の一部）または「緯度,経度」"),
+        party_size: z.string().optional().describe("人数"),
+        budget: z.string().optional().describe("1人あたり予算（円）"),
+        genre: z.string().optional().describe("primary_genre で絞る場合"),
+      },
+    },
+    guardRequest(async ({ area, party_size, budget, genre }, extra) => {
+      const { store, viewer } = toolContext(extra);
+
+      let candidates: (PlaceSummary & { distance_m?: number })[];
+      const m = LAT_LNG.exec(area);
+      if (m) {
+        const { places } = await fetchPlacesWithin(store, { lat: Number(m[1]), lng: Number(m[2]) }, 1000, {
+          primary_genre: genre,
+        });
+        candidates = places.slice(0, 50);
+      } else {
+        candidates = await store.places.searchByAddress(area, { ...genreFilter({ primary_genre: genre }), limit: 50 });
+      }
+
+      const stats = await fetchPlacePostStats(store, candidates.map((pl) => pl.place_id), viewer);
+      const ranked = candidates
+        .map((pl) => ({ ...pl, ...(stats[pl.place_id] ?? { post_count: 0, avg_recommend_score: null }) }))
+        .sort((a, b) => (b.avg_recommend_score ?? 0) - (a.avg_recommend_score ?? 0) || b.post_count - a.post_count)
+        .slice(0, 15);
+
+      const conditions = [
+        `エリア: ${area}`,
+        party_size ? `人数: ${party_size}人` : null,
+        budget ? `予算: 1人あたり ${budget}円 前後` : null,
+        genre ? `ジャンル: ${genre}` : null,
+      ].filter(Boolean);
+
+      return promptMessages(
+        [
+          "Gourmeet の投稿データをもとに、グループでの食事先を提案してください。",
+          ...conditions,
+          "",
+          "下の候補から3〜5軒を選び、それぞれ「おすすめ理由（投稿数・平均おすすめ度）」「グループ向きか」「予算感」を短くまとめてください。",
+          "詳しく見たい店は places.stats / posts.by_place ツールで確認してから答えてください。データにないことは推測だと明記してください。",
+        ].join("\n"),
+        [{ label: "候補の店（投稿数・平均おすすめ度付き）", data: ranked }]
+      );
+    })
+  );
+
+  server.registerPrompt(
+    "summarize_place",
+    {
+      title: "Summarize reviews of a place",
+      description: "店の全投稿の集計と代表的な投稿から、口コミの要約を作ります",
+      argsSchema: { place_id: z.string() },
+    },
+    guardRequest(async ({ place_id }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const [place, stats] = await Promise.all([
+        store.places.getDetail(place_id),
+        computePlaceStats(store, place_id, viewer, { representativePosts: 5 }),
+      ]);
+
+      return promptMessages(
+        [
+          `「${place?.name ?? place_id}」の口コミを要約してください。`,
+          "総合評価（平均・中央値のおすすめ度）、価格感、よく言及される料理や雰囲気、良い点・気になる点を箇条書きで。",
+          "投稿数が少ない場合はその旨を添えてください。",
+        ].join("\n"),
+        [
+          { label: "店情報", data: place, uri: resourceUri.place(place_id) },
+          { label: "投稿の集計と代表的な投稿", data: stats },
+        ]
+      );
+    })
+  );
+
+  server.registerPrompt(
+    "compare_places",
+    {
+      title: "Compare two restaurants",
+      description: "2つの店を、投稿の集計（おすすめ度・価格帯・投稿者）で比較します",
+      argsSchema: { place_id_a: z.string(), place_id_b: z.string() },
+    },
+    guardRequest(async ({ place_id_a, place_id_b }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const [a, b] = await Promise.all([
+        computePlaceStats(store, place_id_a, viewer),
+        computePlaceStats(store, place_id_b, viewer),
+      ]);
+
+      return promptMessages(
+        [
+          `「${a.place?.name ?? place_id_a}」と「${b.place?.name ?? place_id_b}」を比較してください。`,
+          "おすすめ度・価格帯・ジャンル・立地・投稿の新しさを表にまとめ、どんな人・場面にどちらが向くかを一言ずつ添えてください。",
+        ].join("\n"),
+        [
+          { label: "A", data: a },
+          { label: "B", data: b },
+        ]
+      );
+    })
+  );
+
+  server.registerPrompt(
+    "best_of_user",
+    {
+      title: "Best-of list for a user",
+      description: "ユーザーの投稿からおすすめ度の高い店で「ベスト」リストを作ります",
+      argsSchema: {
+        username: z.string(),
+        genre: z.string().optional().describe("primary_genre で絞る場合"),
+        count: z.string().optional().describe("リストの件数（既定 10）"),
+      },
+    },
+    guardRequest(async ({ username, genre, count }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const profile = await store.profiles.getDetail({ username });
+      const n = clampLimit(count ?? 10, 30);
+
+      // 見えない非公開アカウントは、投稿もプロフィールも渡さない
+      const visible = profile !== null && (await viewer.canView(profile));
+      let best: EnrichedPost[] = [];
+      if (visible) {
+        const top = await store.posts.list({ userIds: [profile.id], hasScore: true, sort: "score", limit: 100 });
+        best = (await enrichPosts(store, top, viewer))
+          .filter((p) => !genre || normalizeGenre(p.place?.primary_genre ?? "") === normalizeGenre(genre))
+          .slice(0, n);
+      }
+
+      return promptMessages(
+        [
+          `@${username} さんの投稿から${genre ? `「${genre}」の` : ""}ベスト${n}リストを作ってください。`,
+          "順位・店名・おすすめ度・ひとことコメント（本人の投稿から引用）を並べ、最後に好みの傾向を一文でまとめてください。",
+          profile ? "" : "※ このユーザーは見つかりませんでした。",
+          profile && best.length === 0 ? "※ 閲覧できる投稿がありません（非公開アカウントの可能性があります）。" : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        [
+          ...(visible ? [{ label: "プロフィール", data: profile, uri: resourceUri.profile(username) }] : []),
+          { label: "おすすめ度の高い投稿", data: best },
+        ]
+      );
+    })
+  );
+}
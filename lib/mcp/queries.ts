@@ -0,0 +1,363 @@
+// lib/mcp/queries.ts
+// 複数のツール・リソース・プロンプトで共有する読み出し
+import type { Cursor } from "@/lib/cursor";
+import type { DataStore, PlaceScoreRow, PostQuery } from "@/lib/data";
+import { forbidden } from "@/lib/errors";
+import type { ExportFilter } from "@/lib/export";
+import { genreFilter } from "@/lib/genres";
+import { boundingBox, haversineMeters, type LatLng } from "@/lib/geo";
+import { parseImageVariants, pickVariant } from "@/lib/images";
+import { postKey, uniq } from "@/lib/mcp/helpers";
+import { addressArea, placeNameSearchTerms, rankPlaceCandidates, type PlaceQuery } from "@/lib/placeMatch";
+import type {
+  Author,
+  EnrichedPost,
+  FollowRow,
+  ImageSize,
+  PlaceGenre,
+  PlaceStats,
+  PlaceSummary,
+  PostRow,
+  ProfileSummary,
+} from "@/lib/schemas";
+import { mean, median, numbersOf } from "@/lib/stats";
+import { traced } from "@/lib/tracing";
+import type { Viewer } from "@/lib/viewer";
+
+const NEARBY_SCAN_MAX = 20_000;
+const GENRE_PLACE_PAGE = 1000;
+const EXPORT_PAGE_SIZE = 500;
+// places.resolve の候補集め。店名の揺れ 1 つ・住所・周辺それぞれから引く件数
+const RESOLVE_NAME_CANDIDATES = 30;
+const RESOLVE_AREA_CANDIDATES = 100;
+const RESOLVE_NEARBY_M = 300;
+const PLACE_PAGE_SIZE = 1000;
+const GENRE_SCAN_MAX = 20_000;
+
+// viewer から見えない投稿者（非公開 & 未フォロー）の投稿はここで落とす
+export function enrichPosts(
+  store: DataStore,
+  posts: PostRow[],
+  viewer: Viewer,
+  imageSize: ImageSize = "medium"
+): Promise<EnrichedPost[]> {
+  return traced("enrichPosts", async () => {
+    const userIds = uniq(posts.map((p) => p.user_id).filter(Boolean));
+    const placeIds = uniq(posts.map((p) => p.place_id).filter((id): id is string => Boolean(id)));
+
+    const profilesById: Record<string, Author> = {};
+    if (userIds.length > 0) {
+      for (const pr of await store.profiles.listAuthors(userIds)) profilesById[pr.id] = pr;
+    }
+
+    const placesById: Record<string, PlaceSummary> = {};
+    if (placeIds.length > 0) {
+      for (const pl of await store.places.listByIds(placeIds)) placesById[pl.place_id] = pl;
+    }
+
+    const visible: PostRow[] = [];
+    for (const p of posts) {
+      if (await viewer.canView(profilesById[p.user_id])) visible.push(p);
+    }
+
+    return visible.map((p) => {
+      const images = parseImageVariants(p.image_variants, p.image_urls);
+      return {
+        ...p,
+        image_variants: images,
+        images: images.flatMap((img) => pickVariant(img, imageSize) ?? []),
+        author: profilesById[p.user_id] ?? null,
+        place: p.place_id ? placesById[p.place_id] ?? null : null,
+      };
+    });
+  });
+}
+
+// posts.get / gourmeet://post/{id} 共通。見えない投稿は存在自体を伏せる
+export async function fetchVisiblePost(
+  store: DataStore,
+  id: string,
+  viewer: Viewer,
+  imageSize?: ImageSize
+): Promise<EnrichedPost | null> {
+  const post = await store.posts.get(id);
+  if (!post) return null;
+
+  const enriched = await enrichPosts(store, [post], viewer, imageSize);
+  return enriched[0] ?? null;
+}
+
+// follows の行に相手側の profile を付ける
+export async function attachProfiles<K extends "follower" | "followee">(
+  store: DataStore,
+  rows: FollowRow[],
+  key: K
+): Promise<(FollowRow & Record<K, ProfileSummary | null>)[]> {
+  const ids = uniq(rows.map((r) => r[`${key}_id`]));
+  const profilesById: Record<string, ProfileSummary> = {};
+
+  if (ids.length > 0) {
+    for (const p of await store.profiles.listSummaries(ids)) profilesById[p.id] = p;
+  }
+
+  return rows.map((r) => ({ ...r, [key]: profilesById[r[`${key}_id`]] ?? null }) as FollowRow & Record<K, ProfileSummary | null>);
+}
+
+// follows.suggestions と recommend.for_user の reasons で対象ユーザーを指す名前。viewer 本人なら undefined（"you"）
+export async function subjectName(store: DataStore, viewer: Viewer, userId: string): Promise<string | undefined> {
+  if (userId === viewer.id) return undefined;
+  const [profile] = await store.profiles.listSummaries([userId]);
+  return profile?.username ? `@${profile.username}` : "this user";
+}
+
+export type PlacePostStats = { post_count: number; avg_recommend_score: number | null };
+
+// place ごとの投稿数と recommend_score 平均（viewer から見える投稿のみ）。投稿の列は集計に要る分だけ引く
+export async function fetchPlacePostStats(store: DataStore, placeIds: string[], viewer: Viewer) {
+  if (placeIds.length === 0) return {} as Record<string, PlacePostStats>;
+
+  const rows = await store.posts.listPlaceScores(placeIds, await viewer.postVisibility());
+  const byPlace: Record<string, PlaceScoreRow[]> = {};
+  for (const r of rows) if (r.place_id) (byPlace[r.place_id] ??= []).push(r);
+
+  const stats: Record<string, PlacePostStats> = {};
+  for (const id of placeIds) {
+    const mine = byPlace[id] ?? [];
+    stats[id] = {
+      post_count: mine.length,
+      avg_recommend_score: mean(numbersOf(mine, (r) => r.recommend_score)),
+    };
+  }
+  return stats;
+}
+
+// places.stats と summarize/compare 系プロンプト共通。集計は viewer から見える全投稿が対象
+export async function computePlaceStats(
+  store: DataStore,
+  placeId: string,
+  viewer: Viewer,
+  opts: { topReviewers?: number; representativePosts?: number } = {}
+): Promise<PlaceStats> {
+  const [place] = await store.places.listByIds([placeId]);
+  const posts = await store.posts.list({ placeId, visibleTo: await viewer.postVisibility() });
+
+  const price_range_distribution: Record<string, number> = {};
+  for (const p of posts) {
+    const key = p.price_range ?? "unknown";
+    price_range_distribution[key] = (price_range_distribution[key] ?? 0) + 1;
+  }
+
+  const dates = posts
+    .map((p) => p.created_at)
+    .filter((d): d is string => Boolean(d))
+    .sort();
+
+  // 投稿数の多い順。同数ならおすすめ度の高い人
+  const byUser: Record<string, PostRow[]> = {};
+  for (const p of posts) (byUser[p.user_id] ??= []).push(p);
+  const reviewers = Object.entries(byUser)
+    .map(([user_id, mine]) => ({
+      user_id,
+      post_count: mine.length,
+      avg_recommend_score: mean(numbersOf(mine, (p) => p.recommend_score)),
+    }))
+    .sort((a, b) => b.post_count - a.post_count || (b.avg_recommend_score ?? 0) - (a.avg_recommend_score ?? 0))
+    .slice(0, opts.topReviewers ?? 5);
+
+  const reviewerProfiles: Record<string, ProfileSummary> = {};
+  if (reviewers.length > 0) {
+    for (const p of await store.profiles.listSummaries(reviewers.map((r) => r.user_id))) reviewerProfiles[p.id] = p;
+  }
+
+  // 代表投稿: おすすめ度が高く、本文がしっかりあるもの
+  const representative = [...posts]
+    .filter((p) => p.content && p.content.trim().length > 0)
+    .sort(
+      (a, b) =>
+        (b.recommend_score ?? -Infinity) - (a.recommend_score ?? -Infinity) ||
+        (b.content?.length ?? 0) - (a.content?.length ?? 0)
+    )
+    .slice(0, opts.representativePosts ?? 3);
+
+  return {
+    place_id: placeId,
+    place: place ?? null,
+    stats: {
+      post_count: posts.length,
+      avg_recommend_score: mean(numbersOf(posts, (p) => p.recommend_score)),
+      median_recommend_score: median(numbersOf(posts, (p) => p.recommend_score)),
+      price_range_distribution,
+      median_price_yen: median(numbersOf(posts, (p) => p.price_yen)),
+      first_post_at: dates[0] ?? null,
+      last_post_at: dates[dates.length - 1] ?? null,
+    },
+    top_reviewers: reviewers.map((r) => ({ ...r, profile: reviewerProfiles[r.user_id] ?? null })),
+    representative_posts: await enrichPosts(store, representative, viewer),
+  };
+}
+
+/**
+ * places.nearby・trends.places・plan_dinner 共通。半径内の店を (距離, place_id) 順で返す。
+ * 矩形内を place_id 順に最大 NEARBY_SCAN_MAX 件まで辿り、それより多ければ truncated（近い店が欠けうる）
+ */
+export async function fetchPlacesWithin(
+  store: DataStore,
+  center: LatLng,
+  radius: number,
+  genre: { primary_genre?: string; genre_tags?: string[] } = {}
+) {
+  const box = boundingBox(center, radius);
+  const filter = genreFilter(genre);
+  const candidates = await pageByPlaceId(
+    (afterPlaceId, limit) => store.places.withinBox(box, { ...filter, afterPlaceId, limit }),
+    NEARBY_SCAN_MAX + 1
+  );
+
+  // 矩形の角は半径外なので haversine で落としてから距離順（同距離は place_id 順）
+  const places = candidates
+    .slice(0, NEARBY_SCAN_MAX)
+    .flatMap((pl) =>
+      pl.lat === null || pl.lng === null
+        ? []
+        : [{ ...pl, distance_m: Math.round(haversineMeters(center, { lat: pl.lat, lng: pl.lng })) }]
+    )
+    .filter((pl) => pl.distance_m <= radius)
+    .sort((a, b) => a.distance_m - b.distance_m || a.place_id.localeCompare(b.place_id));
+  return { places, truncated: candidates.length > NEARBY_SCAN_MAX };
+}
+
+/**
+ * primary_genre / genre_tags（表記ゆれは広げる）に当たる店の place_id を全部。posts.list が IN_CHUNK ずつに分けて引く
+ */
+export async function fetchGenrePlaceIds(
+  store: DataStore,
+  genre: { primary_genre?: string; genre_tags?: string[] }
+): Promise<string[]> {
+  const filter = genreFilter(genre);
+  const ids: string[] = [];
+  for (;;) {
+    const page = await store.places.idsByGenre({ ...filter, afterPlaceId: ids.at(-1), limit: GENRE_PLACE_PAGE });
+    ids.push(...page);
+    if (page.length < GENRE_PLACE_PAGE) return ids;
+  }
+}
+
+/**
+ * export の絞り込みを PostQuery にする。username・ジャンルは先に id へ解決し、該当が無ければ null。
+ * 見えないアカウントを名指ししたときは、黙って空にせず FORBIDDEN にする
+ */
+export async function resolveExportQuery(
+  store: DataStore,
+  viewer: Viewer,
+  filter: ExportFilter
+): Promise<PostQuery | null> {
+  let authorId = filter.user_id;
+  if (!authorId && filter.username) {
+    const profile = await store.profiles.getDetail({ username: filter.username });
+    if (!profile) return null;
+    authorId = profile.id;
+  }
+  if (authorId && !(await viewer.canViewUser(authorId))) throw forbidden("This account is private");
+
+  let placeIds: string[] | undefined;
+  if (filter.primary_genre || (filter.genre_tags && filter.genre_tags.length > 0)) {
+    placeIds = await fetchGenrePlaceIds(store, filter);
+    if (filter.place_id) placeIds = placeIds.filter((id) => id === filter.place_id);
+    if (placeIds.length === 0) return null;
+  }
+
+  return {
+    keyword: filter.query,
+    priceRanges: filter.price_range,
+    priceYenMin: filter.price_yen_min,
+    priceYenMax: filter.price_yen_max,
+    minRecommendScore: filter.min_recommend_score,
+    createdAfter: filter.created_after,
+    createdBefore: filter.created_before,
+    userIds: authorId ? [authorId] : undefined,
+    placeId: filter.place_id,
+    placeIds,
+    visibleTo: await viewer.postVisibility(),
+  };
+}
+
+/**
+ * 新しい順に EXPORT_PAGE_SIZE 件ずつ keyset で辿り、author / place を付けて 1 件ずつ返す。
+ * 全件をメモリに載せないので、ダウンロードはこれを流しながら書き出す
+ */
+export async function* iteratePosts(
+  store: DataStore,
+  viewer: Viewer,
+  query: PostQuery,
+  maxRows: number
+): AsyncGenerator<EnrichedPost> {
+  let after: Cursor | null = null;
+  let count = 0;
+  while (count < maxRows) {
+    const rows = await store.posts.list({ ...query, sort: "recent", after, limit: EXPORT_PAGE_SIZE });
+    for (const p of await enrichPosts(store, rows, viewer)) {
+      if (count >= maxRows) return;
+      count++;
+      yield p;
+    }
+    if (rows.length < EXPORT_PAGE_SIZE) return;
+    after = postKey(rows[rows.length - 1]);
+  }
+}
+
+/**
+ * 自由入力の店名（と住所・位置）に合いそうな places を、確からしい順に limit 件。
+ * 候補は店名の揺れごとの部分一致・住所の町域・周辺から集める
+ */
+export async function findPlaceCandidates(store: DataStore, query: PlaceQuery, limit: number) {
+  return traced("findPlaceCandidates", async () => {
+    const searches: Promise<PlaceSummary[]>[] = placeNameSearchTerms(query.name).map((term) =>
+      store.places.searchByName(term, { limit: RESOLVE_NAME_CANDIDATES })
+    );
+    const area = query.address ? addressArea(query.address) : "";
+    if (area.length >= 3) searches.push(store.places.searchByAddress(area, { limit: RESOLVE_AREA_CANDIDATES }));
+    if (query.lat != null && query.lng != null) {
+      const box = boundingBox({ lat: query.lat, lng: query.lng }, RESOLVE_NEARBY_M);
+      searches.push(store.places.withinBox(box, { limit: RESOLVE_AREA_CANDIDATES }));
+    }
+
+    const byId = new Map<string, PlaceSummary>();
+    for (const rows of await Promise.all(searches)) for (const pl of rows) byId.set(pl.place_id, pl);
+    return rankPlaceCandidates(query, Array.from(byId.values()), limit);
+  });
+}
+
+// place_id 昇順のページを辿って最大 maxRows 件
+async function pageByPlaceId<T extends { place_id: string }>(
+  fetchPage: (afterPlaceId: string | undefined, limit: number) => Promise<T[]>,
+  maxRows: number
+): Promise<T[]> {
+  const out: T[] = [];
+  let afterPlaceId: string | undefined;
+  while (out.length < maxRows) {
+    const rows = await fetchPage(afterPlaceId, Math.min(PLACE_PAGE_SIZE, maxRows - out.length));
+    out.push(...rows);
+    if (rows.length < PLACE_PAGE_SIZE) break;
+    afterPlaceId = rows[rows.length - 1].place_id;
+  }
+  return out;
+}
+
+/**
+ * name のある places を place_id 順に最大 maxRows 件（空文字の部分一致 = 全件）
+ */
+export function listAllPlaces(store: DataStore, maxRows: number): Promise<PlaceSummary[]> {
+  return pageByPlaceId((afterPlaceId, limit) => store.places.searchByName("", { afterPlaceId, limit }), maxRows);
+}
+
+/**
+ * ジャンルのある places のジャンル列を place_id 順に最大 GENRE_SCAN_MAX 件。
+ * それより多ければ truncated（place_id の大きい側が欠ける）
+ */
+export async function listGenrePlaces(store: DataStore): Promise<{ places: PlaceGenre[]; truncated: boolean }> {
+  const rows = await pageByPlaceId(
+    (afterPlaceId, limit) => store.places.listGenres({ afterPlaceId, limit }),
+    GENRE_SCAN_MAX + 1
+  );
+  return { places: rows.slice(0, GENRE_SCAN_MAX), truncated: rows.length > GENRE_SCAN_MAX };
+}
@@ -0,0 +1,130 @@
+// lib/mcp/resources.ts
+// gourmeet:// リソースの読み出し（リンクの組み立ては lib/resources.ts）
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { guardRequest, jsonText, toolContext, type ToolContext } from "@/lib/mcp/helpers";
+import { fetchVisiblePost } from "@/lib/mcp/queries";
+import { RESOURCE_TEMPLATES, resourceUri } from "@/lib/resources";
+
+const jsonContents = (uri: URL, data: unknown) => ({
+  contents: [{ uri: uri.href, mimeType: "application/json", text: jsonText(data) }],
+});
+const notFound = (uri: URL) => new McpError(-32002, "Resource not found", { code: "NOT_FOUND", uri: uri.href });
+const variable = (v: string | string[]) => decodeURIComponent(Array.isArray(v) ? v[0] : v);
+
+// 各テンプレートの中身。見つからない・見えないものは null
+const readers = {
+  place: (ctx: ToolContext, placeId: string) => ctx.store.places.getDetail(placeId),
+  post: (ctx: ToolContext, id: string) => fetchVisiblePost(ctx.store, id, ctx.viewer),
+  // 見えない非公開アカウントは、投稿と同じく在ることも伏せる（profiles.get はプロフィールだけ見せる）
+  profile: async (ctx: ToolContext, username: string) => {
+    const data = await ctx.store.profiles.getDetail({ username });
+    return data && (await ctx.viewer.canView(data)) ? { data, viewer_can_view: true } : null;
+  },
+};
+
+const RESOURCE_URI = /^gourmeet:\/\/(place|post|profile)\/([^/]+)$/;
+
+/**
+ * gourmeet:// の URI を読む（resources/subscribe の変更検知用）。対象外の URI や見えないものは null
+ */
+export async function readResourceData(ctx: ToolContext, uri: string): Promise<unknown> {
+  const m = RESOURCE_URI.exec(uri);
+  if (!m) return null;
+  return readers[m[1] as keyof typeof readers](ctx, decodeURIComponent(m[2]));
+}
+
+export const isResourceUri = (uri: string) => RESOURCE_URI.test(uri);
+
+export function registerResources(server: McpServer) {
+  server.registerResource(
+    "place",
+    new ResourceTemplate(RESOURCE_TEMPLATES.place, {
+      // 最近投稿の多い店
+      list: guardRequest(async (extra) => {
+        const { store, viewer } = toolContext(extra);
+        const recent = await store.posts.list({
+          hasPlace: true,
+          visibleTo: await viewer.postVisibility(),
+          limit: 200,
+        });
+
+        const counts: Record<string, number> = {};
+        for (const r of recent) counts[r.place_id!] = (counts[r.place_id!] ?? 0) + 1;
+        const top = Object.entries(counts)
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 20)
+          .map(([id]) => id);
+
+        const places = await store.places.listByIds(top);
+        return {
+          resources: places.map((pl) => ({
+            uri: resourceUri.place(pl.place_id),
+            name: pl.place_id,
+            title: pl.name ?? undefined,
+            description: `${counts[pl.place_id]} recent posts`,
+            mimeType: "application/json",
+          })),
+        };
+      }),
+    }),
+    { title: "Place", description: "places の1行（places.get と同じ列）", mimeType: "application/json" },
+    guardRequest(async (uri, { place_id }, extra) => {
+      const data = await readers.place(toolContext(extra), variable(place_id));
+      if (!data) throw notFound(uri);
+      return jsonContents(uri, data);
+    })
+  );
+
+  server.registerResource(
+    "post",
+    new ResourceTemplate(RESOURCE_TEMPLATES.post, {
+      // 最新の投稿
+      list: guardRequest(async (extra) => {
+        const { store, viewer } = toolContext(extra);
+        const recent = await store.posts.list({ visibleTo: await viewer.postVisibility(), limit: 20 });
+
+        return {
+          resources: recent.map((p) => ({
+            uri: resourceUri.post(p.id),
+            name: p.id,
+            title: p.place_name ?? undefined,
+            description: p.created_at ?? undefined,
+            mimeType: "application/json",
+          })),
+        };
+      }),
+    }),
+    { title: "Post", description: "posts の1件（author/place 付与、posts.get と同じ）", mimeType: "application/json" },
+    guardRequest(async (uri, { id }, extra) => {
+      const data = await readers.post(toolContext(extra), variable(id));
+      if (!data) throw notFound(uri);
+      return jsonContents(uri, data);
+    })
+  );
+
+  server.registerResource(
+    "profile",
+    new ResourceTemplate(RESOURCE_TEMPLATES.profile, {
+      // 最近プロフィールを更新した公開アカウント
+      list: guardRequest(async (extra) => {
+        const profiles = await toolContext(extra).store.profiles.recentPublic(20);
+
+        return {
+          resources: profiles.map((pr) => ({
+            uri: resourceUri.profile(pr.username!),
+            name: pr.username!,
+            title: pr.display_name ?? undefined,
+            mimeType: "application/json",
+          })),
+        };
+      }),
+    }),
+    { title: "Profile", description: "profiles の1行（profiles.get と同じ列）", mimeType: "application/json" },
+    guardRequest(async (uri, { username }, extra) => {
+      const data = await readers.profile(toolContext(extra), variable(username));
+      if (!data) throw notFound(uri);
+      return jsonContents(uri, data);
+    })
+  );
+}
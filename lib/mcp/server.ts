@@ -0,0 +1,40 @@
+// lib/mcp/server.ts
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ADMIN_SCOPE, WRITE_SCOPE } from "@/lib/auth";
+import { registerPrompts } from "@/lib/mcp/prompts";
+import { registerResources } from "@/lib/mcp/resources";
+import { registerAdminTools } from "@/lib/mcp/tools/admin";
+import { registerExportTools } from "@/lib/mcp/tools/export";
+import { registerFeedTools } from "@/lib/mcp/tools/feed";
+import { registerFollowTools } from "@/lib/mcp/tools/follows";
+import { registerGenreTools } from "@/lib/mcp/tools/genres";
+import { registerPlaceTools } from "@/lib/mcp/tools/places";
+import { registerPostTools } from "@/lib/mcp/tools/posts";
+import { registerProfileTools } from "@/lib/mcp/tools/profiles";
+import { registerRecommendTools } from "@/lib/mcp/tools/recommend";
+import { registerSystemTools } from "@/lib/mcp/tools/system";
+import { registerTrendTools } from "@/lib/mcp/tools/trends";
+import { registerWriteTools } from "@/lib/mcp/tools/writes";
+
+// リクエストごとに作る。データアクセスは lib/data の DataStore 経由。
+// scopes はクライアントのスコープで、write / admin を持つときだけ書き込み・運用ツールを載せる
+export function createServer(opts: { scopes?: string[] } = {}) {
+  const server = new McpServer({ name: "gourmeet-mcp", version: "0.1.0" });
+
+  registerSystemTools(server);
+  registerPlaceTools(server);
+  registerGenreTools(server);
+  registerProfileTools(server);
+  registerPostTools(server);
+  registerFollowTools(server);
+  registerFeedTools(server);
+  registerResources(server);
+  registerRecommendTools(server);
+  registerTrendTools(server);
+  registerExportTools(server);
+  if (opts.scopes?.includes(WRITE_SCOPE)) registerWriteTools(server);
+  if (opts.scopes?.includes(ADMIN_SCOPE)) registerAdminTools(server);
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,163 @@
+// lib/mcp/sessions.ts
+// initialize で作るステートフルなセッション（McpServer + transport + イベントストア + 購読）。
+// transport は SSE のストリームを抱えているので、セッションはプロセス内にしか置けない。
+// 複数インスタンスで動かすときはロードバランサで Mcp-Session-Id ごとに振り分ける
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { errorFields, log } from "@/lib/log";
+import { createMemoryEventStore, type EventStoreOptions } from "@/lib/mcp/eventStore";
+import { instrumentTransport } from "@/lib/mcp/instrument";
+import { createServer } from "@/lib/mcp/server";
+import { registerSubscriptions, type SubscriptionOptions, type Subscriptions } from "@/lib/mcp/subscriptions";
+
+export type Session = {
+  id: string;
+  /** セッションを作ったクライアント。別のクライアントからは使えない */
+  clientId: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  subscriptions: Subscriptions;
+  createdAt: number;
+  lastSeenAt: number;
+};
+
+export type SessionOptions = {
+  /** 最後のリクエストからこの時間が経ったセッションは破棄する（既定 30 分） */
+  ttlMs?: number;
+  /** 同時に持つセッション数。超えたら最も使われていないものから閉じる */
+  maxSessions?: number;
+  events?: EventStoreOptions;
+  subscriptions?: SubscriptionOptions;
+  now?: () => number;
+};
+
+export const DEFAULT_SESSION_TTL_MS = 30 * 60_000;
+export const DEFAULT_MAX_SESSIONS = 1000;
+
+export function createSessionManager(opts: SessionOptions = {}) {
+  const ttlMs = opts.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+  const maxSessions = opts.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const now = opts.now ?? Date.now;
+  const sessions = new Map<string, Session>();
+
+  const expired = (s: Session) => now() - s.lastSeenAt > ttlMs;
+
+  async function close(id: string, reason: string) {
+    const session = sessions.get(id);
+    if (!session) return;
+    // transport.close() から onsessionclosed が再び呼ばれても二重に閉じないよう、先に外す
+    sessions.delete(id);
+    session.subscriptions.close();
+    await session.server.close();
+    log.info("mcp.session_closed", { session_id: id, client_id: session.clientId, reason });
+  }
+
+  async function sweep() {
+    for (const s of Array.from(sessions.values())) if (expired(s)) await close(s.id, "expired");
+  }
+
+  // lastSeenAt の古い順に並べ、溢れた分を閉じる
+  async function evict() {
+    const oldest = Array.from(sessions.values()).sort((a, b) => a.lastSeenAt - b.lastSeenAt);
+    for (const s of oldest.slice(0, Math.max(0, sessions.size - maxSessions + 1))) await close(s.id, "evicted");
+  }
+
+  return {
+    /**
+     * initialize を受けたときに呼ぶ。セッション id は transport が initialize の処理中に振り、
+     * そこで初めて一覧に載る（initialize が失敗したら載らない）
+     */
+    async open(
+      clientId: string,
+      scopes: string[] = []
+    ): Promise<{ server: McpServer; transport: StreamableHTTPServerTransport }> {
+      await sweep();
+      if (sessions.size >= maxSessions) await evict();
+
+      const server = createServer({ scopes });
+      const subscriptions = registerSubscriptions(server, opts.subscriptions);
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: createMemoryEventStore({ now, ...opts.events }),
+        onsessioninitialized: (id) => {
+          const at = now();
+          sessions.set(id, { id, clientId, server, transport, subscriptions, createdAt: at, lastSeenAt: at });
+          log.info("mcp.session_opened", { session_id: id, client_id: clientId });
+        },
+        onsessionclosed: (id) => close(id, "deleted"),
+      });
+
+      await server.connect(transport);
+      instrumentTransport(transport);
+      return { server, transport };
+    },
+
+    /** 期限切れや別クライアントのセッションは無いものとして扱う */
+    async get(id: string, clientId: string | undefined): Promise<Session | undefined> {
+      const session = sessions.get(id);
+      if (!session) return undefined;
+      if (expired(session)) {
+        await close(id, "expired");
+        return undefined;
+      }
+      if (session.clientId !== clientId) return undefined;
+      session.lastSeenAt = now();
+      return session;
+    },
+
+    close,
+
+    async closeAll() {
+      for (const id of Array.from(sessions.keys())) await close(id, "shutdown");
+    },
+
+    // 書き込みなどで変わったことが分かっている URI を、購読しているセッションに知らせる
+    async publishResourceUpdated(uri: string) {
+      for (const s of Array.from(sessions.values())) {
+        if (s.subscriptions.uris().includes(uri)) await s.subscriptions.refresh(uri);
+      }
+    },
+
+    size: () => sessions.size,
+  };
+}
+
+export type SessionManager = ReturnType<typeof createSessionManager>;
+
+const envNumber = (name: string) => {
+  const v = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(v) ? v : undefined;
+};
+
+let manager: SessionManager | null = null;
+
+// テストなどで差し替える。null で env からの既定に戻す
+export function setSessionManager(next: SessionManager | null) {
+  manager = next;
+}
+
+/**
+ * MCP_SESSION_TTL_MS / MCP_SESSION_MAX / MCP_SUBSCRIPTION_POLL_MS
+ */
+export function getSessionManager(): SessionManager {
+  manager ??= createSessionManager({
+    ttlMs: envNumber("MCP_SESSION_TTL_MS"),
+    maxSessions: envNumber("MCP_SESSION_MAX"),
+    subscriptions: { pollMs: envNumber("MCP_SUBSCRIPTION_POLL_MS") },
+  });
+  return manager;
+}
+
+/**
+ * 書き込みで変わったリソースを購読中のセッションに知らせる。失敗しても書き込み自体は成功として扱う
+ */
+export async function publishResourceUpdates(uris: string[]) {
+  for (const uri of uris) {
+    try {
+      await getSessionManager().publishResourceUpdated(uri);
+    } catch (e) {
+      log.warn("mcp.publish_error", { uri, error: errorFields(e) });
+    }
+  }
+}
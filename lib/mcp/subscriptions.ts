@@ -0,0 +1,116 @@
+// lib/mcp/subscriptions.ts
+// resources/subscribe。セッションごとに購読中の URI を覚え、中身が変わったら notifications/resources/updated を送る。
+// DB 側の変更は通知が来ないので、購読中の URI を定期的に読み直して比べる
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  ErrorCode as RpcErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { errorFields, log } from "@/lib/log";
+import { toolContext } from "@/lib/mcp/helpers";
+import { isResourceUri, readResourceData } from "@/lib/mcp/resources";
+
+export type SubscriptionOptions = {
+  /** 購読中の URI を読み直す間隔（既定 30 秒） */
+  pollMs?: number;
+  /** 1 セッションで購読できる URI の数 */
+  maxPerSession?: number;
+};
+
+export const DEFAULT_POLL_MS = 30_000;
+export const DEFAULT_MAX_SUBSCRIPTIONS = 100;
+
+export type Subscriptions = {
+  uris(): string[];
+  /** 変更が分かっている URI を読み直し、変わっていれば通知する（書き込み系ツールなどから呼ぶ） */
+  refresh(uri: string): Promise<void>;
+  poll(): Promise<void>;
+  close(): void;
+};
+
+// 読み出した中身をそのまま比べる。見えなくなった・消えたものは "null" になり、それも変更として通知する
+type Subscription = { version: string; authInfo?: AuthInfo };
+
+export function registerSubscriptions(server: McpServer, opts: SubscriptionOptions = {}): Subscriptions {
+  const pollMs = opts.pollMs ?? DEFAULT_POLL_MS;
+  const maxPerSession = opts.maxPerSession ?? DEFAULT_MAX_SUBSCRIPTIONS;
+  const subs = new Map<string, Subscription>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  const versionOf = async (uri: string, authInfo?: AuthInfo) =>
+    JSON.stringify(await readResourceData(toolContext({ authInfo }), uri));
+
+  const check = async (uri: string) => {
+    const sub = subs.get(uri);
+    if (!sub) return;
+    const version = await versionOf(uri, sub.authInfo);
+    // 読んでいる間に解除されていたら送らない
+    if (subs.get(uri) !== sub || version === sub.version) return;
+    sub.version = version;
+    await server.server.sendResourceUpdated({ uri });
+  };
+
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      for (const uri of Array.from(subs.keys())) {
+        try {
+          await check(uri);
+        } catch (e) {
+          log.warn("mcp.subscription_poll_error", { uri, error: errorFields(e) });
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    if (!isResourceUri(uri)) {
+      throw new McpError(RpcErrorCode.InvalidParams, "Only gourmeet:// resources can be subscribed", {
+        code: "INVALID_ARGUMENT",
+      });
+    }
+    if (!subs.has(uri) && subs.size >= maxPerSession) {
+      throw new McpError(RpcErrorCode.InvalidParams, `At most ${maxPerSession} subscriptions per session`, {
+        code: "INVALID_ARGUMENT",
+      });
+    }
+
+    subs.set(uri, { version: await versionOf(uri, extra.authInfo), authInfo: extra.authInfo });
+    if (!timer) {
+      timer = setInterval(() => void poll(), pollMs);
+      timer.unref?.();
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subs.delete(request.params.uri);
+    if (subs.size === 0) stopTimer();
+    return {};
+  });
+
+  return {
+    uris: () => Array.from(subs.keys()),
+    refresh: check,
+    poll,
+    close() {
+      stopTimer();
+      subs.clear();
+    },
+  };
+}
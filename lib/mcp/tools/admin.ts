@@ -0,0 +1,162 @@
+// lib/mcp/tools/admin.ts
+// 運用向けのツール。admin スコープを持つクライアントにだけ登録する（lib/mcp/server.ts）
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { log } from "@/lib/log";
+import { adminContext, clampLimit, guard, postKey, toolResult } from "@/lib/mcp/helpers";
+import { findPlaceCandidates, listAllPlaces } from "@/lib/mcp/queries";
+import { publishResourceUpdates } from "@/lib/mcp/sessions";
+import { findDuplicatePlaces } from "@/lib/placeMatch";
+import { resourceUri } from "@/lib/resources";
+import { duplicatePlacePairSchema, placeCandidateSchema } from "@/lib/schemas";
+
+const RESOLVE_MIN_CONFIDENCE = 0.85;
+// 1 位と 2 位の差がこれ未満なら、どちらとも決めない
+const RESOLVE_MIN_MARGIN = 0.1;
+const RESOLVE_CANDIDATES = 3;
+const DUPLICATE_MIN_CONFIDENCE = 0.8;
+const DUPLICATE_RADIUS_M = 200;
+const DUPLICATE_SCAN_MAX = 20_000;
+
+const resolvedPostSchema = z.object({
+  post_id: z.string(),
+  user_id: z.string(),
+  place_name: z.string().nullable(),
+  place_address: z.string().nullable(),
+  candidates: z.array(placeCandidateSchema),
+  /** 付け直す（apply なら付け直した）place_id。決められなければ null */
+  place_id: z.string().nullable(),
+  applied: z.boolean(),
+  /** place_id が null の理由 */
+  skipped_reason: z.enum(["no_place_name", "no_candidates", "low_confidence", "ambiguous"]).nullable(),
+});
+
+export function registerAdminTools(server: McpServer) {
+  server.registerTool(
+    "admin.resolve_posts",
+    {
+      title: "Resolve Post Places",
+      description:
+        "place_id の無い投稿を新しい順に調べ、place_name / place_address から places を推定します。apply: true のときだけ、min_confidence 以上で 2 位と十分差のある候補を place_id に書き込みます",
+      inputSchema: z.object({
+        limit: z.number().optional().describe("1 回に調べる投稿数（既定 20, 最大 200）"),
+        min_confidence: z.number().min(0).max(1).optional(),
+        apply: z.boolean().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        apply: z.boolean(),
+        min_confidence: z.number(),
+        scanned: z.number(),
+        resolved: z.number(),
+        applied: z.number(),
+        data: z.array(resolvedPostSchema),
+        next_cursor: nextCursorOutput,
+      }),
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    },
+    guard(async ({ limit, min_confidence = RESOLVE_MIN_CONFIDENCE, apply = false, cursor }, extra) => {
+      const { store } = adminContext(extra);
+      const lim = clampLimit(limit, 200);
+      const after = decodeCursor(cursor);
+
+      const rows = await store.posts.list({ hasPlace: false, sort: "recent", after, limit: lim + 1 });
+      const { page, next_cursor } = paginate(rows, lim, postKey);
+
+      const data: z.infer<typeof resolvedPostSchema>[] = [];
+      for (const p of page) {
+        const base = { post_id: p.id, user_id: p.user_id, place_name: p.place_name, place_address: p.place_address };
+        if (!p.place_name?.trim()) {
+          data.push({ ...base, candidates: [], place_id: null, applied: false, skipped_reason: "no_place_name" });
+          continue;
+        }
+
+        const candidates = await findPlaceCandidates(
+          store,
+          { name: p.place_name, address: p.place_address },
+          RESOLVE_CANDIDATES
+        );
+        const [best, second] = candidates;
+        const skipped_reason = !best
+          ? "no_candidates"
+          : best.confidence < min_confidence
+            ? "low_confidence"
+            : second && best.confidence - second.confidence < RESOLVE_MIN_MARGIN
+              ? "ambiguous"
+              : null;
+        const place_id = skipped_reason === null ? best.place.place_id : null;
+
+        let applied = false;
+        if (apply && place_id) {
+          applied = (await store.posts.update(p.id, { place_id })) !== null;
+          if (applied) await publishResourceUpdates([resourceUri.post(p.id)]);
+        }
+        data.push({ ...base, candidates, place_id, applied, skipped_reason });
+      }
+
+      const result = {
+        apply,
+        min_confidence,
+        scanned: data.length,
+        resolved: data.filter((r) => r.place_id).length,
+        applied: data.filter((r) => r.applied).length,
+        data,
+        next_cursor,
+      };
+      log.info("mcp.admin", {
+        action: "admin.resolve_posts",
+        client_id: extra.authInfo?.clientId,
+        apply,
+        scanned: result.scanned,
+        resolved: result.resolved,
+        applied: result.applied,
+      });
+      return toolResult(result);
+    })
+  );
+
+  server.registerTool(
+    "admin.duplicate_places",
+    {
+      title: "Duplicate Places Report",
+      description:
+        "同じ店が別の行として入っていそうな places の組を、確からしい順に返します（近い店どうしと、支店名を外した店名が同じ店どうしを比べます）。書き換えはしません",
+      inputSchema: z.object({
+        min_confidence: z.number().min(0).max(1).optional(),
+        radius_m: z.number().positive().max(1000).optional().describe("近い店とみなす距離（既定 200m）"),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        min_confidence: z.number(),
+        radius_m: z.number(),
+        scanned: z.number(),
+        /** DUPLICATE_SCAN_MAX 件で打ち切った */
+        truncated: z.boolean(),
+        pair_count: z.number(),
+        data: z.array(duplicatePlacePairSchema),
+      }),
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    guard(async ({ min_confidence = DUPLICATE_MIN_CONFIDENCE, radius_m = DUPLICATE_RADIUS_M, limit }, extra) => {
+      const { store } = adminContext(extra);
+      const lim = clampLimit(limit, 200);
+
+      const places = await listAllPlaces(store, DUPLICATE_SCAN_MAX + 1);
+      const truncated = places.length > DUPLICATE_SCAN_MAX;
+      const pairs = findDuplicatePlaces(places.slice(0, DUPLICATE_SCAN_MAX), {
+        radiusM: radius_m,
+        minConfidence: min_confidence,
+      });
+
+      return toolResult({
+        min_confidence,
+        radius_m,
+        scanned: Math.min(places.length, DUPLICATE_SCAN_MAX),
+        truncated,
+        pair_count: pairs.length,
+        data: pairs.slice(0, lim),
+      });
+    })
+  );
+}
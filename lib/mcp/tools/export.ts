@@ -0,0 +1,81 @@
+// lib/mcp/tools/export.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  EXPORT_FORMATS,
+  EXPORT_INLINE_MAX_ROWS,
+  createExportWriter,
+  exportFilterSchema,
+  exportPath,
+} from "@/lib/export";
+import { guard, toolContext, toolResult } from "@/lib/mcp/helpers";
+import { iteratePosts, resolveExportQuery } from "@/lib/mcp/queries";
+
+const DEFAULT_EXPORT_ROWS = 100;
+
+export function registerExportTools(server: McpServer) {
+  server.registerTool(
+    "export",
+    {
+      title: "Export Posts",
+      description:
+        "ユーザー・店・検索条件で絞った投稿（新しい順）を CSV / GeoJSON（places の lat/lng を Point に）/ KML で書き出します。ここで返すのは最大 1000 件で、それより多いときは download_path を同じ Bearer トークンで GET してください（ストリーミング、最大 50000 件）",
+      inputSchema: exportFilterSchema.extend({
+        format: z.enum(EXPORT_FORMATS),
+        limit: z.number().int().positive().optional().describe(`既定 ${DEFAULT_EXPORT_ROWS}、最大 ${EXPORT_INLINE_MAX_ROWS}`),
+      }),
+      outputSchema: z.object({
+        format: z.enum(EXPORT_FORMATS),
+        mime_type: z.string(),
+        filename: z.string(),
+        limit: z.number(),
+        row_count: z.number(),
+        skipped_count: z.number(),
+        truncated: z.boolean(),
+        download_path: z.string(),
+        data: z.string(),
+      }),
+    },
+    guard(async ({ format, limit, ...filter }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = Math.min(limit ?? DEFAULT_EXPORT_ROWS, EXPORT_INLINE_MAX_ROWS);
+      const writer = createExportWriter(format);
+      const query = await resolveExportQuery(store, viewer, filter);
+
+      let data = writer.head();
+      let rowCount = 0;
+      let skipped = 0;
+      let truncated = false;
+      if (query) {
+        // 1 件多く読み、続きがあるかを truncated にする
+        for await (const post of iteratePosts(store, viewer, query, lim + 1)) {
+          if (rowCount + skipped >= lim) {
+            truncated = true;
+            break;
+          }
+          // GeoJSON / KML では位置の無い投稿は書けない
+          const line = writer.row(post);
+          if (line === null) {
+            skipped++;
+            continue;
+          }
+          data += line;
+          rowCount++;
+        }
+      }
+      data += writer.tail();
+
+      return toolResult({
+        format,
+        mime_type: writer.mimeType,
+        filename: writer.filename,
+        limit: lim,
+        row_count: rowCount,
+        skipped_count: skipped,
+        truncated,
+        download_path: exportPath(format, filter),
+        data,
+      });
+    })
+  );
+}
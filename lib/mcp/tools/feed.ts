@@ -0,0 +1,120 @@
+// lib/mcp/tools/feed.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, encodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { invalidArgument } from "@/lib/errors";
+import { FEED_MODES, diversify, rankTop, relationReasons, type RankedPost } from "@/lib/feed";
+import { clampLimit, guard, postKey, progressReporter, toolContext, toolResult, uniq } from "@/lib/mcp/helpers";
+import { enrichPosts } from "@/lib/mcp/queries";
+import { postLinks } from "@/lib/resources";
+import { feedPostSchema, type PostRow } from "@/lib/schemas";
+
+// top / discover で並べ替える候補（新しい順）の上限
+const RANKED_CANDIDATES = 500;
+
+// -------------------------
+// feed
+// -------------------------
+export function registerFeedTools(server: McpServer) {
+  server.registerTool(
+    "feed.home",
+    {
+      title: "Home Feed",
+      description:
+        "user_id の following(accepted) + 自分 の投稿（author/place付与、各投稿に選ばれた理由 reasons）。mode: chronological（新しい順・既定）/ top（おすすめ度 × 新しさ）/ discover（同じ投稿者・ジャンルが続かないよう分散）。top / discover は新しい 500 件の中だけで並べ替える（それより古い投稿があれば truncated）。since 以降の投稿だけに絞れる",
+      inputSchema: z.object({
+        user_id: z.string(),
+        mode: z.enum(FEED_MODES).optional(),
+        since: z.string().datetime({ offset: true }).optional().describe("前回見た時刻。これ以降の投稿だけ"),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        mode: z.enum(FEED_MODES),
+        since: z.string().optional(),
+        limit: z.number(),
+        data: z.array(feedPostSchema),
+        next_cursor: nextCursorOutput,
+        /** top / discover で、候補（新しい 500 件）より古い投稿を並べていない */
+        truncated: z.boolean(),
+        restricted: z.boolean().optional(),
+      }),
+    },
+    guard(async ({ user_id, mode = "chronological", since, limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const progress = progressReporter(extra, 3);
+      const lim = clampLimit(limit);
+      const after = decodeCursor(cursor);
+      // 非公開アカウントのフォロー先（= フィードの中身）は本人と accepted フォロワーにだけ見せる
+      if (!(await viewer.canViewUser(user_id))) {
+        const empty = { user_id, mode, since, limit: lim, data: [], next_cursor: null, truncated: false };
+        return toolResult({ ...empty, restricted: true });
+      }
+
+      await progress("Loading follows");
+      const followeeIds = await store.follows.followeeIds(user_id);
+      const feedUserIds = uniq([user_id, ...followeeIds]);
+      // user_id 本人ではなく、呼び出し元 viewer から見える投稿だけ
+      const visibleTo = await viewer.postVisibility();
+
+      await progress("Loading posts");
+      let page: RankedPost<PostRow>[];
+      let next_cursor: string | null;
+      let truncated = false;
+
+      if (mode === "chronological") {
+        const rows = await store.posts.list({
+          userIds: feedUserIds,
+          visibleTo,
+          createdAfter: since,
+          after,
+          limit: lim + 1,
+        });
+        const paged = paginate(rows, lim, postKey);
+        page = paged.page.map((post) => ({ post, score: 0, reasons: [] }));
+        next_cursor = paged.next_cursor;
+      } else {
+        // 並びは anchor（1 ページ目を作った時刻）で固定し、カーソルに入れて次のページも同じ候補から切り出す
+        const anchor = after ? Number(after.k) : Date.now();
+        if (!Number.isFinite(anchor)) throw invalidArgument("Invalid cursor");
+
+        const rows = await store.posts.list({
+          userIds: feedUserIds,
+          visibleTo,
+          createdAfter: since,
+          createdBefore: new Date(anchor).toISOString(),
+          limit: RANKED_CANDIDATES + 1,
+        });
+        truncated = rows.length > RANKED_CANDIDATES;
+        const candidates = rows.slice(0, RANKED_CANDIDATES);
+
+        let ranked = rankTop(candidates);
+        if (mode === "discover") {
+          const placeIds = uniq(candidates.flatMap((p) => (p.place_id ? [p.place_id] : [])));
+          const genres = Object.fromEntries(
+            (await store.places.listByIds(placeIds)).map((pl) => [pl.place_id, pl.primary_genre])
+          );
+          ranked = diversify(ranked, (p) => (p.place_id ? genres[p.place_id] ?? null : null));
+        }
+
+        const start = after ? ranked.findIndex((r) => r.post.id === after.i) + 1 : 0;
+        if (after && start === 0) throw invalidArgument("Cursor is no longer valid; request the first page again");
+        page = ranked.slice(start, start + lim);
+        const last = page[page.length - 1];
+        next_cursor = last && start + lim < ranked.length ? encodeCursor({ k: anchor, i: last.post.id }) : null;
+      }
+
+      await progress("Attaching authors and places");
+      const ranking = Object.fromEntries(page.map((r) => [r.post.id, r]));
+      const enriched = await enrichPosts(store, page.map((r) => r.post), viewer);
+      const data = enriched.map((p) => ({
+        ...p,
+        score: mode === "chronological" ? null : ranking[p.id].score,
+        reasons: [...relationReasons(p, user_id, since), ...ranking[p.id].reasons],
+      }));
+
+      return toolResult({ user_id, mode, since, limit: lim, data, next_cursor, truncated }, postLinks(data));
+    })
+  );
+}
@@ -0,0 +1,309 @@
+// lib/mcp/tools/follows.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { forbidden, invalidArgument } from "@/lib/errors";
+import { clampLimit, guard, toolContext, toolResult, uniq } from "@/lib/mcp/helpers";
+import { attachProfiles, subjectName } from "@/lib/mcp/queries";
+import { profileLink } from "@/lib/resources";
+import { followRowSchema, followSuggestionSchema, profileSummarySchema, type ProfileSummary } from "@/lib/schemas";
+import { rankSuggestions } from "@/lib/social";
+
+// suggestions で見る、ユーザー自身の投稿した店（新しい順）と、その店への他人の投稿の上限
+const OWN_PLACES_MAX = 200;
+const PLACE_POSTS_MAX = 5000;
+
+const byId = (profiles: ProfileSummary[]) => Object.fromEntries(profiles.map((p) => [p.id, p]));
+
+// -------------------------
+// follows
+// -------------------------
+export function registerFollowTools(server: McpServer) {
+  server.registerTool(
+    "follows.followers",
+    {
+      title: "Followers",
+      description: "あるユーザーの followers（accepted, profile付与）",
+      inputSchema: z.object({
+        user_id: z.string(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        limit: z.number(),
+        data: z.array(followRowSchema.extend({ follower: profileSummarySchema.nullable() })),
+        next_cursor: nextCursorOutput,
+        restricted: z.boolean().optional(),
+      }),
+    },
+    guard(async ({ user_id, limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+
+      // 非公開アカウントのフォロー関係は本人と accepted フォロワーにだけ見せる
+      if (!(await viewer.canViewUser(user_id))) {
+        return toolResult({ user_id, limit: lim, data: [], next_cursor: null, restricted: true });
+      }
+
+      const rows = await store.follows.list({
+        userId: user_id,
+        direction: "followers",
+        after: decodeCursor(cursor),
+        limit: lim + 1,
+      });
+
+      const { page, next_cursor } = paginate(rows, lim, (r) => ({ k: r.created_at, i: r.follower_id }));
+      const enriched = await attachProfiles(store, page, "follower");
+      return toolResult(
+        { user_id, limit: lim, data: enriched, next_cursor },
+        enriched.flatMap((r) => (r.follower ? profileLink(r.follower) : []))
+      );
+    })
+  );
+
+  server.registerTool(
+    "follows.following",
+    {
+      title: "Following",
+      description: "あるユーザーが follow している相手（accepted, profile付与）",
+      inputSchema: z.object({
+        user_id: z.string(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        limit: z.number(),
+        data: z.array(followRowSchema.extend({ followee: profileSummarySchema.nullable() })),
+        next_cursor: nextCursorOutput,
+        restricted: z.boolean().optional(),
+      }),
+    },
+    guard(async ({ user_id, limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+
+      // 非公開アカウントのフォロー関係は本人と accepted フォロワーにだけ見せる
+      if (!(await viewer.canViewUser(user_id))) {
+        return toolResult({ user_id, limit: lim, data: [], next_cursor: null, restricted: true });
+      }
+
+      const rows = await store.follows.list({
+        userId: user_id,
+        direction: "following",
+        after: decodeCursor(cursor),
+        limit: lim + 1,
+      });
+
+      const { page, next_cursor } = paginate(rows, lim, (r) => ({ k: r.created_at, i: r.followee_id }));
+      const enriched = await attachProfiles(store, page, "followee");
+      return toolResult(
+        { user_id, limit: lim, data: enriched, next_cursor },
+        enriched.flatMap((r) => (r.followee ? profileLink(r.followee) : []))
+      );
+    })
+  );
+
+  server.registerTool(
+    "follows.requests",
+    {
+      title: "Follow Requests",
+      description:
+        "認証ユーザーへの承認待ちフォローリクエスト（incoming）か、認証ユーザーが送ったもの（outgoing）。unread_count は相手側を含め request_read が true でない件数",
+      inputSchema: z.object({
+        direction: z.enum(["incoming", "outgoing"]).optional().describe("既定は incoming"),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        direction: z.enum(["incoming", "outgoing"]),
+        limit: z.number(),
+        total: z.number(),
+        unread_count: z.number(),
+        data: z.array(
+          followRowSchema.extend({
+            follower: profileSummarySchema.nullable().optional(),
+            followee: profileSummarySchema.nullable().optional(),
+          })
+        ),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ direction = "incoming", limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+      // リクエストは送った側と受けた側にしか見せない
+      if (!viewer.id) throw forbidden("Sign in to see follow requests");
+
+      const side = direction === "incoming" ? "followers" : "following";
+      const other = direction === "incoming" ? "follower" : "followee";
+      const [rows, counts] = await Promise.all([
+        store.follows.list({
+          userId: viewer.id,
+          direction: side,
+          status: "pending",
+          after: decodeCursor(cursor),
+          limit: lim + 1,
+        }),
+        store.follows.pendingCounts(viewer.id, side),
+      ]);
+
+      const { page, next_cursor } = paginate(rows, lim, (r) => ({ k: r.created_at, i: r[`${other}_id`] }));
+      const enriched = await attachProfiles(store, page, other);
+      return toolResult(
+        {
+          user_id: viewer.id,
+          direction,
+          limit: lim,
+          total: counts.total,
+          unread_count: counts.unread,
+          data: enriched,
+          next_cursor,
+        },
+        enriched.flatMap((r) => (r[other] ? profileLink(r[other]) : []))
+      );
+    })
+  );
+
+  server.registerTool(
+    "follows.mutuals",
+    {
+      title: "Mutual Follows",
+      description:
+        "2人のユーザーの関係（相互フォローか）と、2人とも follow している相手・2人ともを follow している人（accepted, profile付与）",
+      inputSchema: z.object({
+        user_id: z.string().optional().describe("省略時は認証ユーザー"),
+        other_user_id: z.string(),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        other_user_id: z.string(),
+        limit: z.number(),
+        follows_other: z.boolean(),
+        followed_by_other: z.boolean(),
+        mutual: z.boolean(),
+        common_following_count: z.number(),
+        common_following: z.array(profileSummarySchema),
+        common_followers_count: z.number(),
+        common_followers: z.array(profileSummarySchema),
+        restricted: z.boolean().optional(),
+      }),
+    },
+    guard(async ({ user_id, other_user_id, limit }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const userId = user_id ?? viewer.id;
+      if (!userId) throw invalidArgument("user_id is required");
+
+      const empty = {
+        user_id: userId,
+        other_user_id,
+        limit: lim,
+        follows_other: false,
+        followed_by_other: false,
+        mutual: false,
+        common_following_count: 0,
+        common_following: [],
+        common_followers_count: 0,
+        common_followers: [],
+      };
+      // どちらかのフォロー関係が見えなければ何も返さない
+      if (!(await viewer.canViewUser(userId)) || !(await viewer.canViewUser(other_user_id))) {
+        return toolResult({ ...empty, restricted: true });
+      }
+
+      const [followingA, followingB, followersA, followersB] = await Promise.all([
+        store.follows.followeeIds(userId),
+        store.follows.followeeIds(other_user_id),
+        store.follows.followerIds(userId),
+        store.follows.followerIds(other_user_id),
+      ]);
+
+      const common = (a: string[], b: string[]) => {
+        const inB = new Set(b);
+        return uniq(a.filter((id) => inB.has(id) && id !== userId && id !== other_user_id)).sort();
+      };
+      const commonFollowing = common(followingA, followingB);
+      const commonFollowers = common(followersA, followersB);
+
+      const shown = uniq([...commonFollowing.slice(0, lim), ...commonFollowers.slice(0, lim)]);
+      const profiles = byId(shown.length > 0 ? await store.profiles.listSummaries(shown) : []);
+      const pick = (ids: string[]) => ids.slice(0, lim).flatMap((id) => (profiles[id] ? [profiles[id]] : []));
+
+      const follows_other = followingA.includes(other_user_id);
+      const followed_by_other = followingB.includes(userId);
+      const common_following = pick(commonFollowing);
+      const common_followers = pick(commonFollowers);
+      return toolResult(
+        {
+          ...empty,
+          follows_other,
+          followed_by_other,
+          mutual: follows_other && followed_by_other,
+          common_following_count: commonFollowing.length,
+          common_following,
+          common_followers_count: commonFollowers.length,
+          common_followers,
+        },
+        uniq([...common_following, ...common_followers]).flatMap(profileLink)
+      );
+    })
+  );
+
+  server.registerTool(
+    "follows.suggestions",
+    {
+      title: "Follow Suggestions",
+      description:
+        "フォローのおすすめ。フォロー中の人がフォローしている人（友達の友達）・同じ店に投稿している人・フォローしてくれている人を、理由付きで返します（フォロー済み・リクエスト中は除く）",
+      inputSchema: z.object({
+        user_id: z.string().optional().describe("省略時は認証ユーザー"),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        limit: z.number(),
+        data: z.array(followSuggestionSchema),
+      }),
+    },
+    guard(async ({ user_id, limit }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const userId = user_id ?? viewer.id;
+      if (!userId) throw invalidArgument("user_id is required");
+      if (!(await viewer.canViewUser(userId))) throw forbidden("This account is private");
+
+      const [followees, requested, followerIds, own] = await Promise.all([
+        store.follows.followeeIds(userId),
+        store.follows.followeeIds(userId, "pending"),
+        store.follows.followerIds(userId),
+        store.posts.list({ userIds: [userId], hasPlace: true }),
+      ]);
+
+      // viewer からフォロー関係・投稿が見えない人は手がかりに使わない
+      const visibleFollowees = await viewer.visibleUserIds(followees);
+      const followeeEdges = visibleFollowees.length > 0 ? await store.follows.edgesFrom(visibleFollowees) : [];
+      const ownPlaceIds = uniq(own.flatMap((p) => (p.place_id ? [p.place_id] : []))).slice(0, OWN_PLACES_MAX);
+      const placePosts =
+        ownPlaceIds.length > 0
+          ? await store.posts.list({ placeIds: ownPlaceIds, visibleTo: await viewer.postVisibility(), limit: PLACE_POSTS_MAX })
+          : [];
+
+      // 他人の候補を見ているときは、理由の "you" をその人の名前にする
+      const ranked = rankSuggestions({
+        followeeEdges,
+        placePosts,
+        followerIds,
+        exclude: new Set([userId, ...followees, ...requested]),
+        subject: await subjectName(store, viewer, userId),
+      }).slice(0, lim);
+
+      const profiles = byId(ranked.length > 0 ? await store.profiles.listSummaries(ranked.map((r) => r.user_id)) : []);
+      const data = ranked.flatMap(({ user_id: id, ...r }) => (profiles[id] ? [{ profile: profiles[id], ...r }] : []));
+      return toolResult({ user_id: userId, limit: lim, data }, data.flatMap((r) => profileLink(r.profile)));
+    })
+  );
+}
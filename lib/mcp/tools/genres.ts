@@ -0,0 +1,50 @@
+// lib/mcp/tools/genres.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { meetsConfidence, summarizeGenres } from "@/lib/genres";
+import { clampLimit, guard, toolContext, toolResult } from "@/lib/mcp/helpers";
+import { fetchPlacePostStats, listGenrePlaces } from "@/lib/mcp/queries";
+import { genreBucketSchema } from "@/lib/schemas";
+
+export function registerGenreTools(server: McpServer) {
+  server.registerTool(
+    "genres.list",
+    {
+      title: "List Genres",
+      description:
+        "places の primary_genre / genre_tags を、表記ゆれ（ラーメン / ramen / 拉麺 など）を寄せて店数・投稿数付きで返します。genre は places.by_genre にそのまま渡せます",
+      inputSchema: z.object({
+        min_confidence: z.number().min(0).max(1).optional().describe("genre_confidence がこれ未満・不明の店は数えない"),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        min_confidence: z.number().nullable(),
+        limit: z.number(),
+        place_count: z.number(),
+        /** ジャンルのある店が多すぎて全部は数えていない */
+        truncated: z.boolean(),
+        primary_genres: z.array(genreBucketSchema),
+        genre_tags: z.array(genreBucketSchema),
+      }),
+    },
+    guard(async ({ min_confidence, limit }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit, 200);
+
+      const scan = await listGenrePlaces(store);
+      const places = scan.places.filter((pl) => meetsConfidence(pl, min_confidence));
+      const stats = await fetchPlacePostStats(store, places.map((pl) => pl.place_id), viewer);
+      const postCounts = Object.fromEntries(Object.entries(stats).map(([id, s]) => [id, s.post_count]));
+      const { primary_genres, genre_tags } = summarizeGenres(places, postCounts);
+
+      return toolResult({
+        min_confidence: min_confidence ?? null,
+        limit: lim,
+        place_count: places.length,
+        truncated: scan.truncated,
+        primary_genres: primary_genres.slice(0, lim),
+        genre_tags: genre_tags.slice(0, lim),
+      });
+    })
+  );
+}
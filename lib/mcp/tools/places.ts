@@ -0,0 +1,303 @@
+// lib/mcp/tools/places.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, encodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { invalidArgument, notFound } from "@/lib/errors";
+import { genresOf, meetsConfidence, normalizeGenre } from "@/lib/genres";
+import { clampLimit, guard, toolContext, toolResult } from "@/lib/mcp/helpers";
+import {
+  computePlaceStats,
+  fetchPlacePostStats,
+  fetchPlacesWithin,
+  fetchVisiblePost,
+  findPlaceCandidates,
+  listGenrePlaces,
+} from "@/lib/mcp/queries";
+import { dedupeLinks, placeLink, postLinks, profileLink } from "@/lib/resources";
+import {
+  genrePlaceSchema,
+  nearbyPlaceSchema,
+  placeCandidateSchema,
+  placeDetailSchema,
+  placeStatsSchema,
+  placeSummarySchema,
+} from "@/lib/schemas";
+
+export function registerPlaceTools(server: McpServer) {
+  server.registerTool(
+    "places.get",
+    {
+      title: "Get Place",
+      description: "places.place_id で店情報を取得します",
+      inputSchema: z.object({ place_id: z.string() }),
+      outputSchema: z.object({ place_id: z.string(), data: placeDetailSchema }),
+    },
+    guard(async ({ place_id }, extra) => {
+      const { store } = toolContext(extra);
+      const data = await store.places.getDetail(place_id);
+      if (!data) throw notFound("Place");
+      return toolResult({ place_id, data }, [placeLink(data)]);
+    })
+  );
+
+  server.registerTool(
+    "places.search",
+    {
+      title: "Search Places",
+      description: "places.name を部分一致で検索します",
+      inputSchema: z.object({
+        query: z.string(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        query: z.string(),
+        limit: z.number(),
+        data: z.array(placeSummarySchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ query, limit, cursor }, extra) => {
+      const { store } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const after = decodeCursor(cursor);
+
+      const rows = await store.places.searchByName(query, { afterPlaceId: after?.i, limit: lim + 1 });
+      const { page, next_cursor } = paginate(rows, lim, (pl) => ({ k: null, i: pl.place_id }));
+      return toolResult({ query, limit: lim, data: page, next_cursor }, page.map(placeLink));
+    })
+  );
+
+  server.registerTool(
+    "places.nearby",
+    {
+      title: "Nearby Places",
+      description:
+        "緯度経度から半径 radius_m（既定500m, 最大5km）以内の店を近い順に返します（距離・投稿数・平均おすすめ度付き）",
+      inputSchema: z.object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180),
+        radius_m: z.number().positive().max(5000).optional(),
+        primary_genre: z.string().optional(),
+        genre_tags: z.array(z.string()).optional(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        lat: z.number(),
+        lng: z.number(),
+        radius_m: z.number(),
+        primary_genre: z.string().optional(),
+        genre_tags: z.array(z.string()).optional(),
+        limit: z.number(),
+        /** 範囲内の店が多すぎて全部は見ていない（近い店が欠けうる） */
+        truncated: z.boolean(),
+        data: z.array(nearbyPlaceSchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ lat, lng, radius_m, primary_genre, genre_tags, limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const after = decodeCursor(cursor);
+      const radius = radius_m ?? 500;
+
+      const within = await fetchPlacesWithin(store, { lat, lng }, radius, { primary_genre, genre_tags });
+      const sorted = within.places.filter(
+        (pl) =>
+          !after ||
+          pl.distance_m > Number(after.k) ||
+          (pl.distance_m === Number(after.k) && pl.place_id.localeCompare(after.i) > 0)
+      );
+
+      const { page: nearest, next_cursor } = paginate(sorted, lim, (pl) => ({ k: pl.distance_m, i: pl.place_id }));
+      const stats = await fetchPlacePostStats(store, nearest.map((pl) => pl.place_id), viewer);
+
+      const enriched = nearest.map((pl) => ({
+        ...pl,
+        ...(stats[pl.place_id] ?? { post_count: 0, avg_recommend_score: null }),
+      }));
+
+      return toolResult(
+        {
+          lat,
+          lng,
+          radius_m: radius,
+          primary_genre,
+          genre_tags,
+          limit: lim,
+          truncated: within.truncated,
+          data: enriched,
+          next_cursor,
+        },
+        enriched.map(placeLink)
+      );
+    })
+  );
+
+  server.registerTool(
+    "places.stats",
+    {
+      title: "Place Stats",
+      description:
+        "place_id の全投稿を集計します（投稿数・おすすめ度の平均/中央値・価格帯分布・価格中央値・初回/最新投稿日・よく投稿する人・代表的な投稿）",
+      inputSchema: z.object({
+        place_id: z.string(),
+        top_reviewers: z.number().int().positive().max(10).optional(),
+        representative_posts: z.number().int().positive().max(5).optional(),
+      }),
+      outputSchema: placeStatsSchema,
+    },
+    guard(async ({ place_id, top_reviewers, representative_posts }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const result = await computePlaceStats(store, place_id, viewer, {
+        topReviewers: top_reviewers,
+        representativePosts: representative_posts,
+      });
+      if (!result.place && result.stats.post_count === 0) throw notFound("Place");
+
+      return toolResult(
+        result,
+        dedupeLinks([
+          ...(result.place ? [placeLink(result.place)] : []),
+          ...result.top_reviewers.flatMap((r) => (r.profile ? profileLink(r.profile) : [])),
+          ...postLinks(result.representative_posts),
+        ])
+      );
+    })
+  );
+
+  server.registerTool(
+    "places.resolve",
+    {
+      title: "Resolve Place",
+      description:
+        "自由入力の店名（と住所・緯度経度）に合いそうな places を確からしい順に返します（confidence は 0〜1）。post_id を渡すとその投稿の place_name / place_address で探します",
+      inputSchema: z.object({
+        name: z.string().optional().describe("店名。支店名・ひらがな/カタカナ・全角/半角の揺れは吸収します"),
+        address: z.string().optional(),
+        lat: z.number().min(-90).max(90).optional(),
+        lng: z.number().min(-180).max(180).optional(),
+        post_id: z.string().optional(),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        name: z.string(),
+        address: z.string().nullable(),
+        post_id: z.string().nullable(),
+        limit: z.number(),
+        data: z.array(placeCandidateSchema),
+      }),
+    },
+    guard(async ({ name, address, lat, lng, post_id, limit }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit, 10);
+
+      let query = { name: name ?? "", address: address ?? null, lat, lng };
+      if (post_id) {
+        const post = await fetchVisiblePost(store, post_id, viewer);
+        if (!post) throw notFound("Post");
+        query = { ...query, name: name ?? post.place_name ?? "", address: address ?? post.place_address };
+      }
+      if (!query.name.trim()) throw invalidArgument("Provide name or a post_id whose post has place_name");
+
+      const data = await findPlaceCandidates(store, query, lim);
+      return toolResult(
+        { name: query.name, address: query.address, post_id: post_id ?? null, limit: lim, data },
+        data.map((c) => placeLink(c.place))
+      );
+    })
+  );
+
+  server.registerTool(
+    "places.by_genre",
+    {
+      title: "Places by Genre",
+      description:
+        "ジャンルの店を、平均おすすめ度（sort=score, 既定）か投稿数（sort=posts）の順に返します。genre の表記ゆれ（ラーメン / ramen / 拉麺 など）は寄せます。ジャンルの一覧は genres.list",
+      inputSchema: z.object({
+        genre: z.string(),
+        match: z.enum(["primary", "any"]).optional().describe("primary は primary_genre だけ、any（既定）は genre_tags も見る"),
+        min_confidence: z.number().min(0).max(1).optional().describe("genre_confidence がこれ未満・不明の店は除く"),
+        sort: z.enum(["score", "posts"]).optional(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        genre: z.string(),
+        match: z.enum(["primary", "any"]),
+        min_confidence: z.number().nullable(),
+        sort: z.enum(["score", "posts"]),
+        limit: z.number(),
+        /** ジャンルのある店が多すぎて全部は見ていない */
+        truncated: z.boolean(),
+        data: z.array(genrePlaceSchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ genre, match = "any", min_confidence, sort = "score", limit, cursor }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const after = decodeCursor(cursor);
+      const key = normalizeGenre(genre);
+      if (!key) throw invalidArgument("genre is empty");
+
+      const scan = await listGenrePlaces(store);
+      const places = scan.places.filter(
+        (pl) => meetsConfidence(pl, min_confidence) && genresOf(pl, match).includes(key)
+      );
+      const stats = await fetchPlacePostStats(store, places.map((pl) => pl.place_id), viewer);
+
+      // 投稿の無い店は末尾。平均おすすめ度が null（点の付いた投稿が無い）店も score 順では後ろ
+      const byScore = (a: number | null, b: number | null) =>
+        a === b ? 0 : a === null ? 1 : b === null ? -1 : b - a;
+      const ranked = places
+        .map((pl) => ({ ...pl, ...(stats[pl.place_id] ?? { post_count: 0, avg_recommend_score: null }) }))
+        .sort(
+          (a, b) =>
+            (sort === "score"
+              ? byScore(a.avg_recommend_score, b.avg_recommend_score) || b.post_count - a.post_count
+              : b.post_count - a.post_count || byScore(a.avg_recommend_score, b.avg_recommend_score)) ||
+            a.place_id.localeCompare(b.place_id)
+        );
+
+      const start = after ? ranked.findIndex((r) => r.place_id === after.i) + 1 : 0;
+      if (after && start === 0) throw invalidArgument("Cursor is no longer valid; request the first page again");
+      const slice = ranked.slice(start, start + lim);
+      const last = slice[slice.length - 1];
+      const next_cursor = last && start + lim < ranked.length ? encodeCursor({ k: null, i: last.place_id }) : null;
+
+      const summaries = Object.fromEntries(
+        (await store.places.listByIds(slice.map((r) => r.place_id))).map((pl) => [pl.place_id, pl])
+      );
+      const data = slice.flatMap((r) => {
+        const pl = summaries[r.place_id];
+        return pl
+          ? [
+              {
+                ...pl,
+                post_count: r.post_count,
+                avg_recommend_score: r.avg_recommend_score,
+                genre_source: r.genre_source,
+                genre_confidence: r.genre_confidence,
+              },
+            ]
+          : [];
+      });
+
+      return toolResult(
+        {
+          genre: key,
+          match,
+          min_confidence: min_confidence ?? null,
+          sort,
+          limit: lim,
+          truncated: scan.truncated,
+          data,
+          next_cursor,
+        },
+        data.map(placeLink)
+      );
+    })
+  );
+}
@@ -0,0 +1,176 @@
+// lib/mcp/tools/posts.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { POST_SORT_COLUMN } from "@/lib/data";
+import { notFound } from "@/lib/errors";
+import { clampLimit, guard, postKey, toolContext, toolResult } from "@/lib/mcp/helpers";
+import { DEFAULT_IMAGE_PAYLOAD_BYTES, imageBlocks, imageOptionsInput } from "@/lib/images";
+import { enrichPosts, fetchGenrePlaceIds, fetchVisiblePost } from "@/lib/mcp/queries";
+import { postLinks } from "@/lib/resources";
+import { enrichedPostSchema, type EnrichedPost } from "@/lib/schemas";
+
+// include_images のときだけサムネイルを取りに行く
+const imagesOf = async (posts: EnrichedPost[], opts: { include_images?: boolean; max_image_bytes?: number }) =>
+  opts.include_images ? imageBlocks(posts, opts.max_image_bytes ?? DEFAULT_IMAGE_PAYLOAD_BYTES) : [];
+
+export function registerPostTools(server: McpServer) {
+  server.registerTool(
+    "posts.recent",
+    {
+      title: "Recent Posts",
+      description: "posts の最新投稿（author/place 付与）",
+      inputSchema: z.object({ limit: z.number().optional(), cursor: cursorInput, ...imageOptionsInput }),
+      outputSchema: z.object({ limit: z.number(), data: z.array(enrichedPostSchema), next_cursor: nextCursorOutput }),
+    },
+    guard(async ({ limit, cursor, ...images }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+
+      const rows = await store.posts.list({
+        visibleTo: await viewer.postVisibility(),
+        after: decodeCursor(cursor),
+        limit: lim + 1,
+      });
+
+      const { page, next_cursor } = paginate(rows, lim, postKey);
+      const enriched = await enrichPosts(store, page, viewer, images.image_size);
+      return toolResult({ limit: lim, data: enriched, next_cursor }, [
+        ...postLinks(enriched),
+        ...(await imagesOf(enriched, images)),
+      ]);
+    })
+  );
+
+  server.registerTool(
+    "posts.get",
+    {
+      title: "Get Post",
+      description: "posts.id（uuid）で投稿（author/place 付与）",
+      inputSchema: z.object({ id: z.string(), ...imageOptionsInput }),
+      outputSchema: z.object({ id: z.string(), data: enrichedPostSchema }),
+    },
+    guard(async ({ id, ...images }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      // 見えない投稿も「存在しない」と同じ扱い
+      const post = await fetchVisiblePost(store, id, viewer, images.image_size);
+      if (!post) throw notFound("Post");
+      return toolResult({ id, data: post }, [...postLinks([post]), ...(await imagesOf([post], images))]);
+    })
+  );
+
+  server.registerTool(
+    "posts.by_place",
+    {
+      title: "Posts by Place",
+      description: "place_id（text）で投稿一覧（author/place 付与）",
+      inputSchema: z.object({
+        place_id: z.string(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+        ...imageOptionsInput,
+      }),
+      outputSchema: z.object({
+        place_id: z.string(),
+        limit: z.number(),
+        data: z.array(enrichedPostSchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ place_id, limit, cursor, ...images }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(limit);
+
+      const rows = await store.posts.list({
+        placeId: place_id,
+        visibleTo: await viewer.postVisibility(),
+        after: decodeCursor(cursor),
+        limit: lim + 1,
+      });
+
+      const { page, next_cursor } = paginate(rows, lim, postKey);
+      const enriched = await enrichPosts(store, page, viewer, images.image_size);
+      return toolResult({ place_id, limit: lim, data: enriched, next_cursor }, [
+        ...postLinks(enriched),
+        ...(await imagesOf(enriched, images)),
+      ]);
+    })
+  );
+
+  server.registerTool(
+    "posts.search",
+    {
+      title: "Search Posts",
+      description:
+        "content / place_name のキーワード検索（全角半角・ひらがなカタカナを同一視）。価格・おすすめ度・期間・投稿者・ジャンルで絞り込み、新着順かスコア順で返す（author/place 付与）",
+      inputSchema: z.object({
+        query: z.string().optional().describe("空白区切りで AND"),
+        price_range: z.array(z.string()).optional(),
+        price_yen_min: z.number().int().nonnegative().optional(),
+        price_yen_max: z.number().int().nonnegative().optional(),
+        min_recommend_score: z.number().optional(),
+        created_after: z.string().datetime({ offset: true }).optional(),
+        created_before: z.string().datetime({ offset: true }).optional(),
+        user_id: z.string().optional(),
+        username: z.string().optional(),
+        primary_genre: z.string().optional(),
+        genre_tags: z.array(z.string()).optional(),
+        sort: z.enum(["recent", "score"]).optional(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+        ...imageOptionsInput,
+      }),
+      outputSchema: z.object({
+        query: z.string().optional(),
+        sort: z.enum(["recent", "score"]),
+        limit: z.number(),
+        data: z.array(enrichedPostSchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async (input, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const lim = clampLimit(input.limit);
+      const sort = input.sort ?? "recent";
+      const sortCol = POST_SORT_COLUMN[sort];
+      const empty = () => toolResult({ query: input.query, sort, limit: lim, data: [], next_cursor: null });
+
+      let authorId = input.user_id;
+      if (!authorId && input.username) {
+        const profile = await store.profiles.getDetail({ username: input.username });
+        if (!profile) return empty();
+        authorId = profile.id;
+      }
+
+      // ジャンルは places 側の列なので、先に該当 place_id を引いておく
+      let genrePlaceIds: string[] | undefined;
+      if (input.primary_genre || (input.genre_tags && input.genre_tags.length > 0)) {
+        genrePlaceIds = await fetchGenrePlaceIds(store, input);
+        if (genrePlaceIds.length === 0) return empty();
+      }
+
+      const rows = await store.posts.list({
+        keyword: input.query,
+        priceRanges: input.price_range,
+        priceYenMin: input.price_yen_min,
+        priceYenMax: input.price_yen_max,
+        minRecommendScore: input.min_recommend_score,
+        createdAfter: input.created_after,
+        createdBefore: input.created_before,
+        userIds: authorId ? [authorId] : undefined,
+        placeIds: genrePlaceIds,
+        visibleTo: await viewer.postVisibility(),
+        sort,
+        after: decodeCursor(input.cursor),
+        limit: lim + 1,
+      });
+
+      const { page, next_cursor } = paginate(rows, lim, (p) => ({ k: p[sortCol], i: p.id }));
+      const enriched = await enrichPosts(store, page, viewer, input.image_size);
+      return toolResult({ query: input.query, sort, limit: lim, data: enriched, next_cursor }, [
+        ...postLinks(enriched),
+        ...(await imagesOf(enriched, input)),
+      ]);
+    })
+  );
+}
@@ -0,0 +1,165 @@
+// lib/mcp/tools/profiles.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cursorInput, decodeCursor, nextCursorOutput, paginate } from "@/lib/cursor";
+import { forbidden, invalidArgument, notFound } from "@/lib/errors";
+import { clampLimit, guard, progressReporter, toolContext, toolResult, uniq } from "@/lib/mcp/helpers";
+import { placeLink, profileLink } from "@/lib/resources";
+import { profileDetailSchema, profileSummarySchema, tasteProfileSchema, type ProfileSummary } from "@/lib/schemas";
+import {
+  favoritePlaces,
+  frequentAreas,
+  genreDistribution,
+  priceSummary,
+  scoreComparison,
+  tasteTimeline,
+} from "@/lib/taste";
+
+// 他人の評価と比べる店の数（投稿の多い順）と、その店への他人の投稿の上限
+const COMPARE_PLACES_MAX = 200;
+const COMPARE_POSTS_MAX = 5000;
+
+export function registerProfileTools(server: McpServer) {
+  server.registerTool(
+    "profiles.get",
+    {
+      title: "Get Profile",
+      description: "profiles を id または username で取得します",
+      inputSchema: z
+        .object({
+          id: z.string().optional(),
+          username: z.string().optional(),
+        })
+        .refine((v) => v.id || v.username, { message: "Provide id or username" }),
+      outputSchema: z.object({
+        id: z.string().optional(),
+        username: z.string().optional(),
+        data: profileDetailSchema,
+        viewer_can_view: z.boolean(),
+      }),
+    },
+    guard(async ({ id, username }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const profile = await store.profiles.getDetail({ id, username });
+      if (!profile) throw notFound("Profile");
+
+      // プロフィール自体は見せるが、投稿・フォロー一覧を見られるかを添える
+      const viewer_can_view = await viewer.canView(profile);
+      return toolResult({ id, username, data: profile, viewer_can_view }, profileLink(profile));
+    })
+  );
+
+  server.registerTool(
+    "profiles.search",
+    {
+      title: "Search Profiles",
+      description: "username / display_name を部分一致検索します（上位のみ）",
+      inputSchema: z.object({
+        query: z.string(),
+        limit: z.number().optional(),
+        cursor: cursorInput,
+      }),
+      outputSchema: z.object({
+        query: z.string(),
+        limit: z.number(),
+        data: z.array(profileSummarySchema),
+        next_cursor: nextCursorOutput,
+      }),
+    },
+    guard(async ({ query, limit, cursor }, extra) => {
+      const { store } = toolContext(extra);
+      const lim = clampLimit(limit);
+      const after = decodeCursor(cursor);
+
+      // 2本とも id 順に取り、マージ後に id 順で切るのでページ境界がずれない
+      const opts = { afterId: after?.i, limit: lim + 1 };
+      const byUsername = await store.profiles.search("username", query, opts);
+      const byDisplay = await store.profiles.search("display_name", query, opts);
+
+      const uniqById = Object.values(
+        [...byUsername, ...byDisplay].reduce<Record<string, ProfileSummary>>((acc, row) => {
+          acc[row.id] = row;
+          return acc;
+        }, {})
+      ).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+      const { page, next_cursor } = paginate(uniqById, lim, (pr) => ({ k: null, i: pr.id }));
+      return toolResult({ query, limit: lim, data: page, next_cursor }, page.flatMap(profileLink));
+    })
+  );
+
+  server.registerTool(
+    "profiles.taste",
+    {
+      title: "Taste Profile",
+      description:
+        "ユーザーの全投稿と places から食の傾向をまとめます（ジャンル分布・価格帯・評価の甘辛（同じ店の他人の評価との差）・よく行く地域・お気に入り・時期ごとの推移）",
+      inputSchema: z.object({
+        user_id: z.string().optional().describe("省略時は認証ユーザー"),
+        period: z.enum(["month", "year"]).optional().describe("推移の単位（既定は month）"),
+      }),
+      outputSchema: tasteProfileSchema.extend({
+        user_id: z.string(),
+        period: z.enum(["month", "year"]),
+      }),
+    },
+    guard(async ({ user_id, period = "month" }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const progress = progressReporter(extra, 3);
+      const userId = user_id ?? viewer.id;
+      if (!userId) throw invalidArgument("user_id is required");
+      // 投稿系ツールと同じく、非公開アカウントは本人と accepted フォロワーだけ
+      if (!(await viewer.canViewUser(userId))) throw forbidden("This account is private");
+
+      await progress("Loading the user's posts");
+      const posts = await store.posts.list({ userIds: [userId] });
+      const visits: Record<string, number> = {};
+      for (const p of posts) if (p.place_id) visits[p.place_id] = (visits[p.place_id] ?? 0) + 1;
+      const placeIds = Object.keys(visits);
+
+      await progress("Loading places");
+      const places = placeIds.length > 0 ? await store.places.listByIds(placeIds) : [];
+      const placesById = Object.fromEntries(places.map((pl) => [pl.place_id, pl]));
+
+      // 評価の比較は viewer から見える他人の投稿だけで行う
+      await progress("Comparing scores with other posters");
+      const comparePlaceIds = uniq(posts.flatMap((p) => (p.place_id && p.recommend_score !== null ? [p.place_id] : [])))
+        .sort((a, b) => visits[b] - visits[a] || a.localeCompare(b))
+        .slice(0, COMPARE_PLACES_MAX);
+      const others =
+        comparePlaceIds.length > 0
+          ? await store.posts.list({
+              placeIds: comparePlaceIds,
+              hasScore: true,
+              excludeUserIds: [userId],
+              visibleTo: await viewer.postVisibility(),
+              limit: COMPARE_POSTS_MAX,
+            })
+          : [];
+
+      const dates = posts
+        .map((p) => p.created_at)
+        .filter((d): d is string => Boolean(d))
+        .sort();
+      const favorites = favoritePlaces(posts).map(({ place_id, ...f }) => ({ place: placesById[place_id] ?? null, ...f }));
+
+      return toolResult(
+        {
+          user_id: userId,
+          period,
+          post_count: posts.length,
+          place_count: placeIds.length,
+          first_post_at: dates[0] ?? null,
+          last_post_at: dates[dates.length - 1] ?? null,
+          genres: genreDistribution(posts, placesById),
+          price: priceSummary(posts),
+          scores: scoreComparison(posts, others),
+          areas: frequentAreas(posts, placesById),
+          favorites,
+          timeline: tasteTimeline(posts, placesById, period),
+        },
+        favorites.flatMap((f) => (f.place ? placeLink(f.place) : []))
+      );
+    })
+  );
+}
@@ -0,0 +1,107 @@
+// lib/mcp/tools/recommend.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { haversineMeters } from "@/lib/geo";
+import { forbidden, invalidArgument } from "@/lib/errors";
+import { clampLimit, guard, progressReporter, toolContext, toolResult } from "@/lib/mcp/helpers";
+import { subjectName } from "@/lib/mcp/queries";
+import { genreAffinity, rankPlaces, topGenres } from "@/lib/recommend";
+import { placeLink } from "@/lib/resources";
+import { recommendationSchema, type PostRow } from "@/lib/schemas";
+import { median, numbersOf } from "@/lib/stats";
+
+const FOLLOWEE_POSTS_MAX = 5000;
+
+export function registerRecommendTools(server: McpServer) {
+  server.registerTool(
+    "recommend.for_user",
+    {
+      title: "Recommend Places",
+      description:
+        "フォロー中(accepted)の人の評価・自分のジャンル傾向・新しさから、まだ投稿していない店をおすすめ順に返します（理由付き）",
+      inputSchema: z.object({
+        user_id: z.string().optional().describe("省略時は認証ユーザー"),
+        lat: z.number().min(-90).max(90).optional(),
+        lng: z.number().min(-180).max(180).optional(),
+        radius_m: z.number().positive().max(20000).optional(),
+        price_yen_max: z.number().int().nonnegative().optional(),
+        price_range: z.array(z.string()).optional(),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        user_id: z.string(),
+        favorite_genres: z.array(z.string()),
+        limit: z.number(),
+        data: z.array(recommendationSchema),
+      }),
+    },
+    guard(async ({ user_id, lat, lng, radius_m, price_yen_max, price_range, limit }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const progress = progressReporter(extra, 4);
+      const lim = clampLimit(limit);
+      const userId = user_id ?? viewer.id;
+      if (!userId) throw invalidArgument("user_id is required");
+      if ((lat === undefined) !== (lng === undefined)) throw invalidArgument("lat and lng must be given together");
+
+      // 他人のおすすめは、その人の投稿・フォロー関係が見える場合だけ
+      if (!(await viewer.canViewUser(userId))) throw forbidden("This account is private");
+
+      await progress("Loading follows");
+      const followeeIds = await store.follows.followeeIds(userId);
+
+      await progress("Analyzing the user's own posts");
+      const own = await store.posts.list({ userIds: [userId], hasPlace: true });
+      const ownPlaceIds = new Set(own.map((p) => p.place_id).filter((id): id is string => Boolean(id)));
+      const affinity = genreAffinity(await store.places.listByIds(Array.from(ownPlaceIds)));
+
+      // フォロー中の人の投稿は viewer から見えるものだけ使う（新しい順に最大 5000 件）
+      await progress("Collecting posts from followees");
+      const followeePosts =
+        followeeIds.length === 0
+          ? []
+          : await store.posts.list({
+              userIds: followeeIds,
+              hasPlace: true,
+              visibleTo: await viewer.postVisibility(),
+              limit: FOLLOWEE_POSTS_MAX,
+            });
+
+      const candidates = followeePosts.filter((p) => p.place_id && !ownPlaceIds.has(p.place_id));
+      const postsByPlace: Record<string, PostRow[]> = {};
+      for (const p of candidates) (postsByPlace[p.place_id!] ??= []).push(p);
+
+      await progress("Ranking candidate places");
+      const places = (await store.places.listByIds(Object.keys(postsByPlace)))
+        .map((pl) => ({
+          ...pl,
+          distance_m:
+            lat !== undefined && lng !== undefined && pl.lat !== null && pl.lng !== null
+              ? Math.round(haversineMeters({ lat, lng }, { lat: pl.lat, lng: pl.lng }))
+              : null,
+        }))
+        .filter((pl) => {
+          if (lat !== undefined && (pl.distance_m === null || pl.distance_m > (radius_m ?? 1000))) return false;
+          const posts = postsByPlace[pl.place_id];
+          if (price_range && price_range.length > 0 && !posts.some((p) => p.price_range && price_range.includes(p.price_range))) {
+            return false;
+          }
+          const typical = median(numbersOf(posts, (p) => p.price_yen));
+          return price_yen_max === undefined || typical === null || typical <= price_yen_max;
+        });
+
+      const placesById = Object.fromEntries(places.map((pl) => [pl.place_id, pl]));
+      // 他人のおすすめを見ているときは、理由の "you" をその人の名前にする
+      const ranked = rankPlaces(candidates, places, affinity, { subject: await subjectName(store, viewer, userId) })
+        .slice(0, lim)
+        .map(({ place_id, ...rec }) => {
+          const { distance_m, ...place } = placesById[place_id];
+          return { ...rec, place, distance_m };
+        });
+
+      return toolResult(
+        { user_id: userId, favorite_genres: topGenres(affinity), limit: lim, data: ranked },
+        ranked.map((r) => placeLink(r.place))
+      );
+    })
+  );
+}
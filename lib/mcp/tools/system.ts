@@ -0,0 +1,79 @@
+// lib/mcp/tools/system.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { guard, toolContext, toolResult } from "@/lib/mcp/helpers";
+
+const cacheStatsSchema = z.object({
+  ttl_ms: z.number(),
+  max_entries: z.number(),
+  size: z.number(),
+  hits: z.number(),
+  misses: z.number(),
+  coalesced: z.number(),
+  batches: z.number(),
+  loaded: z.number(),
+  invalidations: z.number(),
+  evictions: z.number(),
+});
+
+export function registerSystemTools(server: McpServer) {
+  // -------------------------
+  // ping（Zodスキーマ必須）
+  // -------------------------
+  server.registerTool(
+    "ping",
+    {
+      title: "Ping",
+      description: "Health check",
+      inputSchema: z.object({}),
+      outputSchema: z.object({ ok: z.literal(true) }),
+    },
+    async () => ({ content: [{ type: "text" as const, text: "pong" }], structuredContent: { ok: true as const } })
+  );
+
+  // -------------------------
+  // debug.env（値は返さない）
+  // -------------------------
+  server.registerTool(
+    "debug.env",
+    {
+      title: "Debug Env",
+      description: "環境変数の有無だけ返します（値は返しません）",
+      inputSchema: z.object({}),
+      outputSchema: z.object({
+        VERCEL_ENV: z.string().nullable(),
+        VERCEL_URL: z.string().nullable(),
+        has_SUPABASE_URL: z.boolean(),
+        has_NEXT_PUBLIC_SUPABASE_URL: z.boolean(),
+        has_SUPABASE_SERVICE_ROLE_KEY: z.boolean(),
+      }),
+    },
+    guard(async () => {
+      const present = (k: string) => Boolean(process.env[k]);
+      return toolResult({
+        VERCEL_ENV: process.env.VERCEL_ENV ?? null,
+        VERCEL_URL: process.env.VERCEL_URL ?? null,
+        has_SUPABASE_URL: present("SUPABASE_URL"),
+        has_NEXT_PUBLIC_SUPABASE_URL: present("NEXT_PUBLIC_SUPABASE_URL"),
+        has_SUPABASE_SERVICE_ROLE_KEY: present("SUPABASE_SERVICE_ROLE_KEY"),
+      });
+    })
+  );
+
+  // -------------------------
+  // debug.cache（profiles / places キャッシュの統計）
+  // -------------------------
+  server.registerTool(
+    "debug.cache",
+    {
+      title: "Debug Cache",
+      description: "profiles / places のキャッシュのヒット率などを返します（プロセス起動からの累計）",
+      inputSchema: z.object({}),
+      outputSchema: z.object({ caches: z.record(z.string(), cacheStatsSchema) }),
+    },
+    guard(async (_args, extra) => {
+      const { store } = toolContext(extra);
+      return toolResult({ caches: store.cacheStats?.() ?? {} });
+    })
+  );
+}
@@ -0,0 +1,206 @@
+// lib/mcp/tools/trends.ts
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { PostQuery } from "@/lib/data";
+import { forbidden, invalidArgument } from "@/lib/errors";
+import { genresOf, normalizeGenre } from "@/lib/genres";
+import { clampLimit, guard, progressReporter, toolContext, toolResult } from "@/lib/mcp/helpers";
+import { fetchPlacesWithin, listGenrePlaces } from "@/lib/mcp/queries";
+import { placeLink } from "@/lib/resources";
+import { activityPointSchema, trendingPlaceSchema } from "@/lib/schemas";
+import {
+  ACTIVITY_BUCKETS,
+  TREND_WINDOWS,
+  activitySeries,
+  bucketStarts,
+  bucketsBefore,
+  rankTrendingPlaces,
+  type ActivityBucket,
+  type TrendWindow,
+} from "@/lib/trends";
+
+// 読む投稿の上限。超えたら古い側（基準期間・前半の区切り）が欠けるので truncated を返す
+const TREND_POSTS_MAX = 20_000;
+const DEFAULT_BASELINE_WINDOWS = 4;
+const DEFAULT_AREA_RADIUS_M = 1000;
+// from を省略したとき、to から遡る区切りの数
+const DEFAULT_BUCKETS: Record<ActivityBucket, number> = { hour: 48, day: 30, week: 26, month: 12 };
+const MAX_BUCKETS = 500;
+
+const windowEnum = z.enum(Object.keys(TREND_WINDOWS) as [TrendWindow, ...TrendWindow[]]);
+const isoTime = z.string().datetime({ offset: true });
+
+export function registerTrendTools(server: McpServer) {
+  server.registerTool(
+    "trends.places",
+    {
+      title: "Trending Places",
+      description:
+        "直近の window（24h / 7d / 30d）に、その前の baseline_windows 窓の平均より投稿が増えていて、おすすめ度の高い店を返します。scope=network はフォロー中(accepted)の人の投稿だけ、lat/lng を渡すとその周辺だけ",
+      inputSchema: z.object({
+        window: windowEnum.optional().describe("既定 7d"),
+        baseline_windows: z.number().int().min(1).max(12).optional().describe("比べる過去の窓の数（既定 4）"),
+        until: isoTime.optional().describe("窓の終わり（既定は現在）"),
+        scope: z.enum(["all", "network"]).optional(),
+        lat: z.number().min(-90).max(90).optional(),
+        lng: z.number().min(-180).max(180).optional(),
+        radius_m: z.number().positive().max(20000).optional().describe("既定 1000m"),
+        min_posts: z.number().int().positive().optional().describe("直近の窓の投稿がこれ未満の店は除く（既定 2）"),
+        limit: z.number().optional(),
+      }),
+      outputSchema: z.object({
+        window: windowEnum,
+        baseline_windows: z.number(),
+        since: z.string(),
+        until: z.string(),
+        scope: z.enum(["all", "network"]),
+        limit: z.number(),
+        /** 投稿が多すぎて基準期間を読み切れなかった（lat/lng なら範囲内の店が多すぎた） */
+        truncated: z.boolean(),
+        data: z.array(trendingPlaceSchema),
+      }),
+    },
+    guard(async (args, extra) => {
+      const { store, viewer } = toolContext(extra);
+      const progress = progressReporter(extra, 3);
+      const lim = clampLimit(args.limit);
+      const { window = "7d", baseline_windows = DEFAULT_BASELINE_WINDOWS, scope = "all", lat, lng } = args;
+      if ((lat === undefined) !== (lng === undefined)) throw invalidArgument("lat and lng must be given together");
+
+      const until = args.until ? Date.parse(args.until) : Date.now();
+      const windowMs = TREND_WINDOWS[window];
+      const since = until - windowMs * (1 + baseline_windows);
+
+      const query: PostQuery = {
+        hasPlace: true,
+        createdAfter: new Date(since).toISOString(),
+        createdBefore: new Date(until).toISOString(),
+        visibleTo: await viewer.postVisibility(),
+        limit: TREND_POSTS_MAX + 1,
+      };
+      if (scope === "network") {
+        if (!viewer.id) throw forbidden("Sign in to see trends in your network");
+        query.userIds = Array.from(await viewer.followeeIds());
+      }
+
+      await progress("Loading places in the area");
+      const area =
+        lat !== undefined && lng !== undefined
+          ? await fetchPlacesWithin(store, { lat, lng }, args.radius_m ?? DEFAULT_AREA_RADIUS_M)
+          : null;
+      const distanceById = area ? Object.fromEntries(area.places.map((pl) => [pl.place_id, pl.distance_m])) : null;
+      if (area) query.placeIds = area.places.map((pl) => pl.place_id);
+
+      await progress("Loading posts");
+      const rows = query.userIds?.length === 0 || query.placeIds?.length === 0 ? [] : await store.posts.list(query);
+      const truncated = rows.length > TREND_POSTS_MAX || Boolean(area?.truncated);
+      const posts = rows.slice(0, TREND_POSTS_MAX);
+
+      await progress("Ranking places");
+      const ranked = rankTrendingPlaces(posts, {
+        until,
+        windowMs,
+        baselineWindows: baseline_windows,
+        minPosts: args.min_posts ?? 2,
+        windowLabel: window,
+      }).slice(0, lim);
+      const places = Object.fromEntries(
+        (await store.places.listByIds(ranked.map((r) => r.place_id))).map((pl) => [pl.place_id, pl])
+      );
+      const data = ranked.flatMap(({ place_id, ...r }) =>
+        places[place_id] ? [{ place: places[place_id], distance_m: distanceById?.[place_id] ?? null, ...r }] : []
+      );
+
+      return toolResult(
+        {
+          window,
+          baseline_windows,
+          since: new Date(since).toISOString(),
+          until: new Date(until).toISOString(),
+          scope,
+          limit: lim,
+          truncated,
+          data,
+        },
+        data.map((r) => placeLink(r.place))
+      );
+    })
+  );
+
+  server.registerTool(
+    "trends.activity",
+    {
+      title: "Activity Over Time",
+      description:
+        "店（place_id）・ユーザー（user_id）・ジャンル（genre）のどれか 1 つについて、hour / day / week / month ごとの投稿数とおすすめ度の平均を古い順に返します（UTC、投稿の無い区切りは 0 件）",
+      inputSchema: z.object({
+        place_id: z.string().optional(),
+        user_id: z.string().optional(),
+        genre: z.string().optional().describe("表記ゆれは寄せます（genres.list の genre）"),
+        bucket: z.enum(ACTIVITY_BUCKETS).optional().describe("既定 day"),
+        from: isoTime.optional(),
+        to: isoTime.optional().describe("既定は現在"),
+      }),
+      outputSchema: z.object({
+        subject: z.object({ type: z.enum(["place", "user", "genre"]), id: z.string() }),
+        bucket: z.enum(ACTIVITY_BUCKETS),
+        from: z.string(),
+        to: z.string(),
+        total: z.number(),
+        /** 投稿（ジャンルなら店）が多すぎて古い側を数えきれていない */
+        truncated: z.boolean(),
+        series: z.array(activityPointSchema),
+      }),
+    },
+    guard(async ({ place_id, user_id, genre, bucket = "day", from, to }, extra) => {
+      const { store, viewer } = toolContext(extra);
+      if ([place_id, user_id, genre].filter((v) => v !== undefined).length !== 1) {
+        throw invalidArgument("Give exactly one of place_id, user_id or genre");
+      }
+
+      const toMs = to ? Date.parse(to) : Date.now();
+      const fromMs = from ? Date.parse(from) : bucketsBefore(toMs, bucket, DEFAULT_BUCKETS[bucket]);
+      if (fromMs >= toMs) throw invalidArgument("from must be before to");
+      if (bucketStarts(fromMs, toMs, bucket).length > MAX_BUCKETS) {
+        throw invalidArgument(`Too many ${bucket} buckets; narrow from/to (max ${MAX_BUCKETS})`);
+      }
+
+      const query: PostQuery = {
+        createdAfter: new Date(fromMs).toISOString(),
+        createdBefore: new Date(toMs).toISOString(),
+        visibleTo: await viewer.postVisibility(),
+        limit: TREND_POSTS_MAX + 1,
+      };
+      let subject: { type: "place" | "user" | "genre"; id: string };
+      let scanTruncated = false;
+      if (place_id) {
+        subject = { type: "place", id: place_id };
+        query.placeId = place_id;
+      } else if (user_id) {
+        if (!(await viewer.canViewUser(user_id))) throw forbidden("This account is private");
+        subject = { type: "user", id: user_id };
+        query.userIds = [user_id];
+      } else {
+        const key = normalizeGenre(genre ?? "");
+        if (!key) throw invalidArgument("genre is empty");
+        subject = { type: "genre", id: key };
+        const scan = await listGenrePlaces(store);
+        scanTruncated = scan.truncated;
+        query.placeIds = scan.places.filter((pl) => genresOf(pl, "any").includes(key)).map((pl) => pl.place_id);
+      }
+
+      const rows = query.placeIds?.length === 0 ? [] : await store.posts.list(query);
+      const series = activitySeries(rows.slice(0, TREND_POSTS_MAX), fromMs, toMs, bucket);
+
+      return toolResult({
+        subject,
+        bucket,
+        from: new Date(fromMs).toISOString(),
+        to: new Date(toMs).toISOString(),
+        total: series.reduce((sum, s) => sum + s.post_count, 0),
+        truncated: scanTruncated || rows.length > TREND_POSTS_MAX,
+        series,
+      });
+    })
+  );
+}
@@ -0,0 +1,283 @@
+// lib/mcp/tools/writes.ts
+// posts / follows の書き込み。write スコープを持つクライアントにだけ登録する（lib/mcp/server.ts）。
+// どれも認証ユーザー本人としてだけ書き、dry_run なら書かずに結果の見込みを返す
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { DataStore, PostPatch } from "@/lib/data";
+import { forbidden, invalidArgument, notFound } from "@/lib/errors";
+import { log } from "@/lib/log";
+import { guard, toolResult, writerContext } from "@/lib/mcp/helpers";
+import { publishResourceUpdates } from "@/lib/mcp/sessions";
+import { resourceUri } from "@/lib/resources";
+import { followRowSchema, postRowSchema, type FollowRow, type PostRow } from "@/lib/schemas";
+import type { Viewer } from "@/lib/viewer";
+
+// recommend_score は 1〜5（lib/recommend.ts と同じ想定）
+const SCORE_MIN = 1;
+const SCORE_MAX = 5;
+const CONTENT_MAX = 5000;
+
+// price_range は "1000-2000" のような円の範囲。上限なしは "10000-"
+const PRICE_RANGE = /^(\d+)-(\d+)?$/;
+
+const priceRangeSchema = z
+  .string()
+  .regex(PRICE_RANGE, 'price_range must look like "1000-2000" or "10000-"')
+  .refine((v) => {
+    const [, lo, hi] = PRICE_RANGE.exec(v)!;
+    return hi === undefined || Number(lo) < Number(hi);
+  }, "price_range must go from low to high");
+
+// null を渡すとその列を空にする（update）。省略した列は変えない
+const postFields = {
+  content: z.string().max(CONTENT_MAX).nullable().optional(),
+  place_id: z.string().nullable().optional().describe("places に存在する place_id"),
+  recommend_score: z.number().min(SCORE_MIN).max(SCORE_MAX).nullable().optional().describe("1〜5"),
+  price_yen: z.number().int().nonnegative().nullable().optional(),
+  price_range: priceRangeSchema.nullable().optional().describe('"1000-2000" や "10000-"'),
+};
+
+const dryRun = z.boolean().optional().describe("true なら書き込まず、結果の見込みだけ返す");
+
+const writeOutput = <T extends z.ZodTypeAny>(row: T, actions: readonly [string, ...string[]]) =>
+  z.object({
+    dry_run: z.boolean(),
+    action: z.enum(actions),
+    /** 書き込み後の行（削除なら null） */
+    data: row.nullable(),
+    /** 書き込み前の行（新規なら null） */
+    previous: row.nullable(),
+  });
+
+const WRITE = { readOnlyHint: false, openWorldHint: false } as const;
+
+function checkPriceConsistency(row: Pick<PostRow, "price_yen" | "price_range">) {
+  if (row.price_yen === null || row.price_range === null) return;
+  const [, lo, hi] = PRICE_RANGE.exec(row.price_range)!;
+  if (row.price_yen < Number(lo) || (hi !== undefined && row.price_yen > Number(hi))) {
+    throw invalidArgument(`price_yen ${row.price_yen} is outside price_range ${row.price_range}`);
+  }
+}
+
+// place_id を変えるときは places に在るかを確かめ、店名・住所を places から写す
+async function placeColumns(store: DataStore, placeId: string | null | undefined): Promise<PostPatch> {
+  if (placeId === undefined) return {};
+  if (placeId === null) return { place_id: null, place_name: null, place_address: null };
+  const place = await store.places.getDetail(placeId);
+  if (!place) throw invalidArgument(`place_id ${placeId} does not exist`);
+  return { place_id: place.place_id, place_name: place.name, place_address: place.address };
+}
+
+// 本人の投稿だけ。見えない投稿（非公開 & 未フォローの人の投稿）は存在自体を伏せる
+async function ownPost(store: DataStore, viewer: Viewer, id: string): Promise<PostRow> {
+  const post = await store.posts.get(id);
+  if (!post || !(await viewer.canViewUser(post.user_id))) throw notFound("Post");
+  if (post.user_id !== viewer.id) throw forbidden("You can only change your own posts");
+  return post;
+}
+
+async function profileUris(store: DataStore, ids: string[]) {
+  const profiles = await store.profiles.listSummaries(ids);
+  return profiles.flatMap((pr) => (pr.username ? [resourceUri.profile(pr.username)] : []));
+}
+
+export function registerWriteTools(server: McpServer) {
+  // -------------------------
+  // posts
+  // -------------------------
+  server.registerTool(
+    "posts.create",
+    {
+      title: "Create Post",
+      description:
+        "認証ユーザーとして投稿を作ります（place_id は places に存在するもの、recommend_score は 1〜5）。先に dry_run: true で内容を確かめてください",
+      inputSchema: z.object({ ...postFields, dry_run: dryRun }),
+      outputSchema: writeOutput(postRowSchema, ["create"]),
+      annotations: { ...WRITE, destructiveHint: false, idempotentHint: false },
+    },
+    guard(async ({ dry_run = false, place_id, ...fields }, extra) => {
+      const { store, userId } = writerContext(extra);
+
+      const row: PostRow = {
+        id: randomUUID(),
+        user_id: userId,
+        content: fields.content ?? null,
+        created_at: new Date().toISOString(),
+        image_urls: null,
+        place_name: null,
+        place_address: null,
+        place_id: null,
+        image_variants: null,
+        recommend_score: fields.recommend_score ?? null,
+        price_yen: fields.price_yen ?? null,
+        price_range: fields.price_range ?? null,
+        ...(await placeColumns(store, place_id)),
+      };
+      checkPriceConsistency(row);
+      if (row.content === null && row.place_id === null) throw invalidArgument("Provide content or place_id");
+
+      const data = dry_run ? row : await store.posts.insert(row);
+      if (!dry_run) {
+        log.info("mcp.write", { action: "posts.create", user_id: userId, post_id: data.id });
+        await publishResourceUpdates([resourceUri.post(data.id)]);
+      }
+      return toolResult({ dry_run, action: "create", data, previous: null });
+    })
+  );
+
+  server.registerTool(
+    "posts.update",
+    {
+      title: "Update Post",
+      description: "認証ユーザー自身の投稿を書き換えます。省略した列はそのまま、null を渡した列は空にします",
+      inputSchema: z.object({ id: z.string(), ...postFields, dry_run: dryRun }),
+      outputSchema: writeOutput(postRowSchema, ["update"]),
+      annotations: { ...WRITE, destructiveHint: true, idempotentHint: true },
+    },
+    guard(async ({ id, dry_run = false, place_id, ...fields }, extra) => {
+      const { store, viewer, userId } = writerContext(extra);
+      const previous = await ownPost(store, viewer, id);
+
+      const patch: PostPatch = {};
+      for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) Object.assign(patch, { [key]: value });
+      }
+      Object.assign(patch, await placeColumns(store, place_id));
+      if (Object.keys(patch).length === 0) throw invalidArgument("Nothing to update");
+
+      const next = { ...previous, ...patch };
+      checkPriceConsistency(next);
+
+      const data = dry_run ? next : await store.posts.update(id, patch);
+      if (!data) throw notFound("Post");
+      if (!dry_run) {
+        log.info("mcp.write", { action: "posts.update", user_id: userId, post_id: id, fields: Object.keys(patch) });
+        await publishResourceUpdates([resourceUri.post(id)]);
+      }
+      return toolResult({ dry_run, action: "update", data, previous });
+    })
+  );
+
+  server.registerTool(
+    "posts.delete",
+    {
+      title: "Delete Post",
+      description: "認証ユーザー自身の投稿を削除します（元に戻せません）。dry_run: true で消える投稿を確認できます",
+      inputSchema: z.object({ id: z.string(), dry_run: dryRun }),
+      outputSchema: writeOutput(postRowSchema, ["delete"]),
+      annotations: { ...WRITE, destructiveHint: true, idempotentHint: true },
+    },
+    guard(async ({ id, dry_run = false }, extra) => {
+      const { store, viewer, userId } = writerContext(extra);
+      const previous = await ownPost(store, viewer, id);
+
+      if (!dry_run) {
+        if (!(await store.posts.delete(id))) throw notFound("Post");
+        log.info("mcp.write", { action: "posts.delete", user_id: userId, post_id: id });
+        await publishResourceUpdates([resourceUri.post(id)]);
+      }
+      return toolResult({ dry_run, action: "delete", data: null, previous });
+    })
+  );
+
+  // -------------------------
+  // follows
+  // -------------------------
+  server.registerTool(
+    "follows.request",
+    {
+      title: "Follow",
+      description:
+        "認証ユーザーとして相手を follow します。公開アカウントはすぐ accepted、非公開アカウントは pending（相手の承認待ち）になります",
+      inputSchema: z.object({ user_id: z.string().describe("follow する相手"), dry_run: dryRun }),
+      outputSchema: writeOutput(followRowSchema, ["request"]),
+      annotations: { ...WRITE, destructiveHint: false, idempotentHint: false },
+    },
+    guard(async ({ user_id, dry_run = false }, extra) => {
+      const { store, userId } = writerContext(extra);
+      if (user_id === userId) throw invalidArgument("You cannot follow yourself");
+
+      const target = await store.profiles.getDetail({ id: user_id });
+      if (!target) throw notFound("Profile");
+      const existing = await store.follows.get(userId, user_id);
+      if (existing?.status === "pending") throw invalidArgument("A follow request is already pending");
+      if (existing) throw invalidArgument("Already following");
+
+      const pending = target.is_public === false;
+      const row: FollowRow = {
+        follower_id: userId,
+        followee_id: user_id,
+        created_at: new Date().toISOString(),
+        status: pending ? "pending" : "accepted",
+        request_read: pending ? false : null,
+      };
+
+      const data = dry_run ? row : await store.follows.insert(row);
+      if (!dry_run) {
+        log.info("mcp.write", { action: "follows.request", user_id: userId, followee_id: user_id, status: row.status });
+        await publishResourceUpdates(await profileUris(store, [user_id]));
+      }
+      return toolResult({ dry_run, action: "request", data, previous: null });
+    })
+  );
+
+  server.registerTool(
+    "follows.accept",
+    {
+      title: "Accept Follow Request",
+      description: "認証ユーザー宛ての pending のフォローリクエストを承認します（follows.requests で一覧できます）",
+      inputSchema: z.object({ user_id: z.string().describe("リクエストを送ってきた人"), dry_run: dryRun }),
+      outputSchema: writeOutput(followRowSchema, ["accept"]),
+      annotations: { ...WRITE, destructiveHint: false, idempotentHint: true },
+    },
+    guard(async ({ user_id, dry_run = false }, extra) => {
+      const { store, userId } = writerContext(extra);
+      const previous = await store.follows.get(user_id, userId);
+      if (!previous || previous.status !== "pending") throw notFound("Follow request");
+
+      const patch = { status: "accepted", request_read: true };
+      const data = dry_run ? { ...previous, ...patch } : await store.follows.update(user_id, userId, patch);
+      if (!data) throw notFound("Follow request");
+      if (!dry_run) {
+        log.info("mcp.write", { action: "follows.accept", user_id: userId, follower_id: user_id });
+        await publishResourceUpdates(await profileUris(store, [userId]));
+      }
+      return toolResult({ dry_run, action: "accept", data, previous });
+    })
+  );
+
+  server.registerTool(
+    "follows.remove",
+    {
+      title: "Remove Follow",
+      description:
+        "フォロー関係を消します。direction=following（既定）は自分の follow の解除・送ったリクエストの取り消し、follower は相手からの follow の削除・届いたリクエストの拒否",
+      inputSchema: z.object({
+        user_id: z.string().describe("相手"),
+        direction: z.enum(["following", "follower"]).optional(),
+        dry_run: dryRun,
+      }),
+      outputSchema: writeOutput(followRowSchema, ["remove"]),
+      annotations: { ...WRITE, destructiveHint: true, idempotentHint: true },
+    },
+    guard(async ({ user_id, direction = "following", dry_run = false }, extra) => {
+      const { store, userId } = writerContext(extra);
+      const [followerId, followeeId] = direction === "following" ? [userId, user_id] : [user_id, userId];
+      const previous = await store.follows.get(followerId, followeeId);
+      if (!previous) throw notFound("Follow");
+
+      if (!dry_run) {
+        if (!(await store.follows.delete(followerId, followeeId))) throw notFound("Follow");
+        log.info("mcp.write", {
+          action: "follows.remove",
+          user_id: userId,
+          follower_id: followerId,
+          followee_id: followeeId,
+        });
+        await publishResourceUpdates(await profileUris(store, [followeeId]));
+      }
+      return toolResult({ dry_run, action: "remove", data: null, previous });
+    })
+  );
+}
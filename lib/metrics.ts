@@ -0,0 +1,102 @@
+// lib/metrics.ts
+// Prometheus のテキスト形式で出すカウンタ / ヒストグラム。
+// 値はプロセス内に持つので、サーバーレスではインスタンスごとの値になる（集計は Prometheus 側で sum する）
+
+export type Labels = Record<string, string>;
+
+export type Counter = { inc(labels: Labels, value?: number): void };
+export type Histogram = { observe(labels: Labels, value: number): void };
+
+type Metric = { render(): string[]; reset(): void };
+
+// 秒単位のレイテンシ用
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+export const SIZE_BUCKETS = [256, 1024, 4096, 16384, 65536, 262144, 1048576];
+
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+// ラベル名はソート済みの順で並べ、同じ組み合わせが同じキーになるようにする
+const labelKey = (labels: Labels) =>
+  Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(labels[k])}"`)
+    .join(",");
+
+const withLabels = (name: string, key: string) => (key ? `${name}{${key}}` : name);
+
+export function createMetricsRegistry() {
+  const metrics = new Map<string, Metric>();
+
+  const define = <M extends Metric>(name: string, metric: M): M => {
+    if (metrics.has(name)) throw new Error(`metric ${name} is already defined`);
+    metrics.set(name, metric);
+    return metric;
+  };
+
+  return {
+    counter(name: string, help: string): Counter {
+      const values = new Map<string, number>();
+      return define(name, {
+        inc(labels: Labels, value = 1) {
+          const key = labelKey(labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+        render: () => [
+          `# HELP ${name} ${help}`,
+          `# TYPE ${name} counter`,
+          ...Array.from(values, ([key, v]) => `${withLabels(name, key)} ${v}`),
+        ],
+        reset: () => values.clear(),
+      });
+    },
+
+    histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+      const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+      return define(name, {
+        observe(labels: Labels, value: number) {
+          const key = labelKey(labels);
+          const s = series.get(key) ?? { counts: buckets.map(() => 0), sum: 0, count: 0 };
+          series.set(key, s);
+          buckets.forEach((le, i) => {
+            if (value <= le) s.counts[i] += 1;
+          });
+          s.sum += value;
+          s.count += 1;
+        },
+        render: () => [
+          `# HELP ${name} ${help}`,
+          `# TYPE ${name} histogram`,
+          ...Array.from(series, ([key, s]) => {
+            const le = (v: string) => (key ? `${key},le="${v}"` : `le="${v}"`);
+            return [
+              ...buckets.map((b, i) => `${name}_bucket{${le(String(b))}} ${s.counts[i]}`),
+              `${name}_bucket{${le("+Inf")}} ${s.count}`,
+              `${withLabels(`${name}_sum`, key)} ${s.sum}`,
+              `${withLabels(`${name}_count`, key)} ${s.count}`,
+            ];
+          }).flat(),
+        ],
+        reset: () => series.clear(),
+      });
+    },
+
+    render: () => Array.from(metrics.values(), (m) => m.render().join("\n")).join("\n\n") + "\n",
+
+    reset: () => metrics.forEach((m) => m.reset()),
+  };
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+// プロセスで1つ。/api/metrics がこれを出す
+export const registry = createMetricsRegistry();
+
+export const rpcCalls = registry.counter("mcp_rpc_calls_total", "JSON-RPC calls by method, tool and status");
+export const rpcDuration = registry.histogram("mcp_rpc_duration_seconds", "JSON-RPC call latency");
+export const rpcResponseSize = registry.histogram(
+  "mcp_rpc_response_size_bytes",
+  "JSON-RPC response size",
+  SIZE_BUCKETS
+);
+export const spanDuration = registry.histogram("mcp_span_duration_seconds", "Traced span latency (store queries etc.)");
+export const spanErrors = registry.counter("mcp_span_errors_total", "Traced spans that threw");
@@ -0,0 +1,299 @@
+// lib/placeMatch.ts
+// 投稿の自由入力の店名・住所を places の行に突き合わせる（DB アクセスはしない）
+import { haversineMeters } from "@/lib/geo";
+import { round2 } from "@/lib/stats";
+import { normalizeJa, termVariants, toKatakana } from "@/lib/textSearch";
+
+export type MatchablePlace = {
+  place_id: string;
+  name: string | null;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+};
+
+export type PlaceQuery = {
+  name: string;
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+};
+
+export type MatchSignals = {
+  /** 0〜1 */
+  name: number;
+  /** 0〜1。どちらかの住所が無ければ null */
+  address: number | null;
+  distance_m: number | null;
+};
+
+export type PlaceMatch = { confidence: number; signals: MatchSignals; reasons: string[] };
+
+export type DuplicatePair<T extends MatchablePlace> = PlaceMatch & { a: T; b: T };
+
+// 店名が一番効く。住所・距離は店名の裏付け
+const NAME_WEIGHT = 0.6;
+const ADDRESS_WEIGHT = 0.25;
+const DISTANCE_WEIGHT = 0.15;
+// 店名しか手がかりが無いときは同名の別の店かもしれないので割り引く
+const NAME_ONLY_FACTOR = 0.8;
+// この距離までは同じ建物とみなし、DISTANCE_ZERO_M で 0 になる
+const SAME_SPOT_M = 30;
+const DISTANCE_ZERO_M = 500;
+
+// 末尾の支店名として外すもの（"渋谷店" "2号店" "本店" など）
+const BRANCH_WORDS = /(総本店|本店|支店|本館|別館|\d+号店)$/u;
+const BRANCH_TOKEN = /(店|館)$/u;
+// 比べるときに無視する記号（長音 ー は残す）
+const IGNORED_CHARS = /[\s・･·'’"&.,!?:;/\-‐‑–—―~〜「」『』【】]/gu;
+const PREFECTURE = /^(東京都|北海道|(京都|大阪)府|[^\s\d]{2,3}県)/u;
+
+/**
+ * 店名を比較用に寄せる。core は支店名を外したもの、branch は外した支店名
+ * （"スターバックス 渋谷店" → core "スターバックス", branch "渋谷店"）
+ */
+export function normalizePlaceName(name: string): { core: string; branch: string | null; full: string } {
+  let s = normalizeJa(name);
+  let branch: string | null = null;
+
+  // "(渋谷店)" のような括弧書き
+  const paren = /\s*\(([^)]*)\)$/u.exec(s);
+  if (paren && paren.index > 0) {
+    branch = paren[1];
+    s = s.slice(0, paren.index);
+  } else {
+    const tokens = s.split(" ");
+    const last = tokens[tokens.length - 1];
+    if (tokens.length > 1 && BRANCH_TOKEN.test(last)) {
+      branch = last;
+      s = tokens.slice(0, -1).join(" ");
+    } else {
+      const m = BRANCH_WORDS.exec(s);
+      if (m && m.index >= 2) {
+        branch = m[1];
+        s = s.slice(0, m.index);
+      }
+    }
+  }
+
+  return { core: canonical(s), branch: branch === null ? null : canonical(branch), full: canonical(name) };
+}
+
+// ひらがな → カタカナ、旧かな・小書きの揺れを寄せ、記号と空白を落とす
+function canonical(s: string): string {
+  return toKatakana(normalizeJa(s))
+    .replace(/ヴ/g, "ブ")
+    .replace(/ヵ/g, "カ")
+    .replace(/ヶ/g, "ケ")
+    .replace(/ヰ/g, "イ")
+    .replace(/ヱ/g, "エ")
+    .replace(IGNORED_CHARS, "");
+}
+
+/**
+ * DB を部分一致で引くときの語。支店名を外した店名の、ひらがな/カタカナ・全角/半角の揺れ
+ */
+export function placeNameSearchTerms(name: string): string[] {
+  const base = normalizeJa(name).replace(/[*%_,()"\\]/g, "");
+  const { branch } = normalizePlaceName(name);
+  let core = base;
+  if (branch !== null) {
+    const tokens = base.split(" ");
+    core = tokens.length > 1 ? tokens.slice(0, -1).join(" ") : base.replace(BRANCH_WORDS, "");
+  }
+  return termVariants(core).filter((t) => t.length >= 2);
+}
+
+const bigrams = (s: string) => {
+  const out: string[] = [];
+  for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
+  return out;
+};
+
+// Dice 係数（2 文字ずつの一致率）
+function dice(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const counts: Record<string, number> = {};
+  for (const g of bigrams(a)) counts[g] = (counts[g] ?? 0) + 1;
+  let hits = 0;
+  for (const g of bigrams(b)) {
+    if (counts[g]) {
+      counts[g]--;
+      hits++;
+    }
+  }
+  return (2 * hits) / (a.length - 1 + b.length - 1);
+}
+
+function nameScore(a: string, b: string): { score: number; reason: string | null } {
+  const na = normalizePlaceName(a);
+  const nb = normalizePlaceName(b);
+  if (!na.core || !nb.core) return { score: 0, reason: null };
+  if (na.full === nb.full) return { score: 1, reason: "Same name" };
+
+  if (na.core === nb.core) {
+    // 同じチェーンの別の支店は別の店
+    if (na.branch !== null && nb.branch !== null && na.branch !== nb.branch) {
+      return { score: 0.6, reason: "Same name, different branch" };
+    }
+    return { score: 0.9, reason: "Same name without branch" };
+  }
+
+  const [short, long] = na.core.length <= nb.core.length ? [na.core, nb.core] : [nb.core, na.core];
+  if (short.length >= 2 && long.includes(short)) return { score: 0.8, reason: "Name contains the other" };
+
+  const score = round2(dice(na.core, nb.core));
+  return { score, reason: score >= 0.5 ? "Similar name" : null };
+}
+
+// 住所を「町域まで」と「番地の数字列」に分ける（"東京都渋谷区道玄坂2丁目1-1" → 渋谷区道玄坂 / [2, 1, 1]）
+function splitAddress(address: string) {
+  const s = normalizeJa(address)
+    .replace(/^日本[、,]?\s*/u, "")
+    .replace(/〒?\d{3}-\d{4}/u, "")
+    .replace(/\s+/g, "")
+    .replace(PREFECTURE, "");
+  const firstDigit = s.search(/\d/);
+  const area = firstDigit < 0 ? s : s.slice(0, firstDigit);
+  const numbers = firstDigit < 0 ? [] : (s.slice(firstDigit).match(/\d+/g) ?? []);
+  return { area, numbers };
+}
+
+// DB を住所の部分一致で引くときの語（都道府県・番地を外した町域）
+export const addressArea = (address: string) => splitAddress(address).area;
+
+// 市区町村まで（"渋谷区道玄坂" → "渋谷区"）
+const cityOf = (area: string) => /^.+?[市区町村]/u.exec(area)?.[0] ?? null;
+
+function addressScore(a: string, b: string): { score: number; reason: string | null } {
+  const sa = splitAddress(a);
+  const sb = splitAddress(b);
+  if (!sa.area || !sb.area) return { score: 0, reason: null };
+
+  if (sa.area === sb.area) {
+    const len = Math.max(sa.numbers.length, sb.numbers.length);
+    let same = 0;
+    while (same < len && sa.numbers[same] !== undefined && sa.numbers[same] === sb.numbers[same]) same++;
+    if (len > 0 && same === len) return { score: 1, reason: "Same address" };
+    if (same > 0) return { score: round2(0.4 + (0.6 * same) / len), reason: "Same block" };
+    return { score: 0.4, reason: "Same neighborhood" };
+  }
+
+  const city = cityOf(sa.area);
+  if (city && city === cityOf(sb.area)) return { score: 0.2, reason: "Same city" };
+  return { score: 0, reason: null };
+}
+
+const distanceScore = (m: number) =>
+  m <= SAME_SPOT_M ? 1 : Math.max(0, 1 - (m - SAME_SPOT_M) / (DISTANCE_ZERO_M - SAME_SPOT_M));
+
+/**
+ * query がその店である確からしさ（0〜1）。使えた手がかりの重み付き平均で、店名しか無ければ割り引く
+ */
+export function matchPlace(query: PlaceQuery, place: MatchablePlace): PlaceMatch {
+  const reasons: string[] = [];
+
+  const name = place.name ? nameScore(query.name, place.name) : { score: 0, reason: null };
+  if (name.reason) reasons.push(name.reason);
+  let total = NAME_WEIGHT * name.score;
+  let weight = NAME_WEIGHT;
+
+  let address: number | null = null;
+  if (query.address && place.address) {
+    const r = addressScore(query.address, place.address);
+    address = r.score;
+    if (r.reason) reasons.push(r.reason);
+    total += ADDRESS_WEIGHT * r.score;
+    weight += ADDRESS_WEIGHT;
+  }
+
+  let distance_m: number | null = null;
+  if (query.lat != null && query.lng != null && place.lat !== null && place.lng !== null) {
+    distance_m = Math.round(haversineMeters({ lat: query.lat, lng: query.lng }, { lat: place.lat, lng: place.lng }));
+    reasons.push(`${distance_m} m away`);
+    total += DISTANCE_WEIGHT * distanceScore(distance_m);
+    weight += DISTANCE_WEIGHT;
+  }
+
+  const factor = weight === NAME_WEIGHT ? NAME_ONLY_FACTOR : 1;
+  return {
+    confidence: round2((total / weight) * factor),
+    signals: { name: name.score, address, distance_m },
+    reasons,
+  };
+}
+
+/**
+ * 候補を確からしい順に並べる。同点なら place_id 順
+ */
+export function rankPlaceCandidates<T extends MatchablePlace>(
+  query: PlaceQuery,
+  places: T[],
+  limit: number
+): (PlaceMatch & { place: T })[] {
+  return places
+    .map((place) => ({ place, ...matchPlace(query, place) }))
+    .filter((c) => c.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence || a.place.place_id.localeCompare(b.place.place_id))
+    .slice(0, limit);
+}
+
+/**
+ * 同じ店が別の行として入っていそうな組。近い店どうし（radiusM 以内）と、支店名を外した店名が同じ店どうしを比べる
+ */
+export function findDuplicatePlaces<T extends MatchablePlace>(
+  places: T[],
+  opts: { radiusM: number; minConfidence: number }
+): DuplicatePair<T>[] {
+  // radiusM 角ほどのマス目に分け、隣のマスまでを比べる。経度 1 度の長さは緯度 60 度までなら赤道の半分以上なので、
+  // 経度方向は 2 倍の幅にしておけば radiusM 以内の店は必ず隣までに入る
+  const latDeg = opts.radiusM / 111_000;
+  const lngDeg = latDeg * 2;
+  const cellOf = (pl: T) => ({ x: Math.floor(pl.lat! / latDeg), y: Math.floor(pl.lng! / lngDeg) });
+  const cellKey = (x: number, y: number) => `${x}:${y}`;
+  const cells: Record<string, T[]> = {};
+  const byName: Record<string, T[]> = {};
+
+  for (const pl of places) {
+    if (pl.lat !== null && pl.lng !== null) {
+      const { x, y } = cellOf(pl);
+      (cells[cellKey(x, y)] ??= []).push(pl);
+    }
+    const core = pl.name ? normalizePlaceName(pl.name).core : "";
+    if (core) (byName[core] ??= []).push(pl);
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair<T>[] = [];
+  const compare = (a: T, b: T) => {
+    if (a.place_id === b.place_id || !a.name) return;
+    const [x, y] = a.place_id < b.place_id ? [a, b] : [b, a];
+    const key = `${x.place_id}\n${y.place_id}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const match = matchPlace({ name: x.name ?? "", address: x.address, lat: x.lat, lng: x.lng }, y);
+    if (match.confidence >= opts.minConfidence) pairs.push({ a: x, b: y, ...match });
+  };
+
+  for (const pl of places) {
+    if (pl.lat !== null && pl.lng !== null) {
+      const { x, y } = cellOf(pl);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (const other of cells[cellKey(x + dx, y + dy)] ?? []) compare(pl, other);
+        }
+      }
+    }
+    const core = pl.name ? normalizePlaceName(pl.name).core : "";
+    for (const other of core ? byName[core] : []) compare(pl, other);
+  }
+
+  return pairs.sort(
+    (p, q) =>
+      q.confidence - p.confidence ||
+      p.a.place_id.localeCompare(q.a.place_id) ||
+      p.b.place_id.localeCompare(q.b.place_id)
+  );
+}
@@ -0,0 +1,199 @@
+// lib/rateLimit.ts
+// クライアント（認証済みなら clientId、未認証なら IP）ごとのトークンバケット。
+// ツールごとに重さ（cost）を変え、重いクエリを連打するエージェントを抑える
+import type { IncomingMessage } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { log } from "@/lib/log";
+
+export type RateLimitPolicy = {
+  /** バケットの容量（= 連続で使える cost の合計） */
+  capacity: number;
+  /** 1 秒あたりに回復する量 */
+  refillPerSec: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number;
+  /** allowed = false のとき、必要な分が貯まるまでの秒数 */
+  retryAfterSec: number;
+};
+
+/**
+ * バケットの保存先。複数インスタンスで共有したいときは Redis などで実装して差し替える
+ */
+export type RateLimitStore = {
+  take(key: string, cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+};
+
+// 重いツール（複数クエリ + enrichPosts、ilike の全件走査など）ほど高くする
+export const DEFAULT_TOOL_COSTS: Record<string, number> = {
+  ping: 0,
+  "debug.env": 0,
+  "debug.cache": 0,
+  "places.search": 2,
+  "places.nearby": 3,
+  "places.stats": 5,
+  "places.resolve": 3,
+  "places.by_genre": 5,
+  "genres.list": 5,
+  "profiles.search": 3,
+  "profiles.taste": 5,
+  "posts.search": 3,
+  "feed.home": 5,
+  "follows.suggestions": 5,
+  "recommend.for_user": 10,
+  "trends.places": 5,
+  "trends.activity": 3,
+  export: 10,
+  // 書き込みは読み取りより重めにする
+  "posts.create": 3,
+  "posts.update": 3,
+  "posts.delete": 3,
+  "follows.request": 3,
+  "follows.accept": 2,
+  "follows.remove": 2,
+  "admin.resolve_posts": 10,
+  "admin.duplicate_places": 10,
+};
+
+// tools/call 以外で課金しないもの
+const FREE_METHODS = new Set([
+  "initialize",
+  "ping",
+  "tools/list",
+  "resources/list",
+  "resources/templates/list",
+  "prompts/list",
+]);
+
+export const DEFAULT_POLICY: RateLimitPolicy = { capacity: 60, refillPerSec: 1 };
+
+export function createMemoryRateLimitStore(opts: { maxKeys?: number } = {}): RateLimitStore {
+  const maxKeys = opts.maxKeys ?? 10_000;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async take(key, cost, policy, now) {
+      const prev = buckets.get(key);
+      const elapsedSec = prev ? Math.max(0, now - prev.updatedAt) / 1000 : 0;
+      const tokens = prev ? Math.min(policy.capacity, prev.tokens + elapsedSec * policy.refillPerSec) : policy.capacity;
+      // 容量を超える cost は満タンなら通す（永遠に通らなくならないように）
+      const need = Math.min(cost, policy.capacity);
+      const allowed = tokens >= need;
+      const left = allowed ? tokens - need : tokens;
+
+      // 最近使ったものを後ろに回し、溢れたら古いものから捨てる
+      buckets.delete(key);
+      buckets.set(key, { tokens: left, updatedAt: now });
+      while (buckets.size > maxKeys) buckets.delete(buckets.keys().next().value!);
+
+      return {
+        allowed,
+        remaining: Math.floor(left),
+        retryAfterSec: allowed ? 0 : Math.ceil((need - left) / policy.refillPerSec),
+      };
+    },
+  };
+}
+
+export type RateLimiter = {
+  policy: RateLimitPolicy;
+  costOf(body: unknown): number;
+  /** JSON-RPC を通らない入口（/api/export など）で、同じツールの cost を引くとき */
+  costOfTool(name: string): number;
+  take(key: string, cost: number): Promise<RateLimitDecision>;
+};
+
+type JsonRpcMessage = { method?: unknown; params?: { name?: unknown } };
+
+export function createRateLimiter(
+  opts: {
+    store?: RateLimitStore;
+    policy?: Partial<RateLimitPolicy>;
+    toolCosts?: Record<string, number>;
+    now?: () => number;
+  } = {}
+): RateLimiter {
+  const store = opts.store ?? createMemoryRateLimitStore();
+  const policy = { ...DEFAULT_POLICY, ...opts.policy };
+  const toolCosts = { ...DEFAULT_TOOL_COSTS, ...opts.toolCosts };
+  const now = opts.now ?? Date.now;
+
+  const costOfMessage = (msg: JsonRpcMessage) => {
+    if (typeof msg.method !== "string") return 0;
+    if (msg.method === "tools/call") {
+      const name = msg.params?.name;
+      return typeof name === "string" ? (toolCosts[name] ?? 1) : 1;
+    }
+    if (FREE_METHODS.has(msg.method) || msg.method.startsWith("notifications/")) return 0;
+    return 1;
+  };
+
+  return {
+    policy,
+
+    // バッチ（配列）は合計で課金する
+    costOf(body) {
+      const messages = Array.isArray(body) ? body : [body];
+      return messages.reduce<number>(
+        (sum, m) => sum + (typeof m === "object" && m !== null ? costOfMessage(m as JsonRpcMessage) : 0),
+        0
+      );
+    },
+
+    costOfTool: (name) => toolCosts[name] ?? 1,
+
+    take(key, cost) {
+      if (cost <= 0) return Promise.resolve({ allowed: true, remaining: policy.capacity, retryAfterSec: 0 });
+      return store.take(key, cost, policy, now());
+    },
+  };
+}
+
+// 認証済みは clientId（API キー / Supabase ユーザー）単位、未認証は IP 単位
+export function rateLimitKey(req: IncomingMessage, auth: AuthInfo | undefined): string {
+  if (auth) return `client:${auth.clientId}`;
+  const forwarded = req.headers["x-forwarded-for"];
+  const ip = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return `ip:${ip || req.socket.remoteAddress || "unknown"}`;
+}
+
+const envNumber = (name: string) => {
+  const v = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(v) ? v : undefined;
+};
+
+/**
+ * MCP_RATE_LIMIT_CAPACITY / MCP_RATE_LIMIT_REFILL_PER_SEC / MCP_RATE_LIMIT_TOOL_COSTS（{"feed.home":8} の JSON）
+ */
+function rateLimiterFromEnv(): RateLimiter {
+  let toolCosts: Record<string, number> | undefined;
+  if (process.env.MCP_RATE_LIMIT_TOOL_COSTS) {
+    try {
+      toolCosts = JSON.parse(process.env.MCP_RATE_LIMIT_TOOL_COSTS);
+    } catch {
+      log.error("mcp.config_error", { message: "MCP_RATE_LIMIT_TOOL_COSTS is not valid JSON; using default costs" });
+    }
+  }
+
+  return createRateLimiter({
+    policy: {
+      capacity: envNumber("MCP_RATE_LIMIT_CAPACITY") ?? DEFAULT_POLICY.capacity,
+      refillPerSec: envNumber("MCP_RATE_LIMIT_REFILL_PER_SEC") ?? DEFAULT_POLICY.refillPerSec,
+    },
+    toolCosts,
+  });
+}
+
+let limiter: RateLimiter | null = null;
+
+// テストなどで差し替える。null で env からの既定に戻す
+export function setRateLimiter(next: RateLimiter | null) {
+  limiter = next;
+}
+
+export function getRateLimiter(): RateLimiter {
+  limiter ??= rateLimiterFromEnv();
+  return limiter;
+}
@@ -0,0 +1,130 @@
+// lib/recommend.ts
+// recommend.for_user のスコアリング（DB アクセスはしない）
+import { round2 } from "@/lib/stats";
+
+type ScoredPost = {
+  user_id: string;
+  place_id: string | null;
+  created_at: string | null;
+  recommend_score: number | null;
+};
+
+type GenrePlace = {
+  place_id: string;
+  primary_genre: string | null;
+  genre_tags: string[] | null;
+};
+
+export type GenreAffinity = Record<string, number>;
+
+export type PlaceRecommendation = {
+  place_id: string;
+  score: number;
+  followee_count: number;
+  followee_avg_recommend_score: number | null;
+  last_followee_post_at: string | null;
+  reasons: string[];
+};
+
+// recommend_score は 1〜5 を想定。4 以上を「高評価」として理由に使う
+const HIGH_SCORE = 4;
+const DEFAULT_SCORE = 3;
+const RECENCY_HALF_LIFE_DAYS = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const recencyWeight = (createdAt: string | null, now: number) => {
+  if (!createdAt) return 0.5;
+  const ageDays = Math.max(0, (now - Date.parse(createdAt)) / DAY_MS);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+const genreKeys = (pl: GenrePlace) =>
+  Array.from(new Set([pl.primary_genre, ...(pl.genre_tags ?? [])].filter((g): g is string => Boolean(g))));
+
+/**
+ * ユーザー自身が投稿した店のジャンル分布（合計 1 に正規化）。primary_genre はタグの倍で数える
+ */
+export function genreAffinity(ownPlaces: GenrePlace[]): GenreAffinity {
+  const counts: Record<string, number> = {};
+  let total = 0;
+  for (const pl of ownPlaces) {
+    for (const g of genreKeys(pl)) {
+      const w = g === pl.primary_genre ? 2 : 1;
+      counts[g] = (counts[g] ?? 0) + w;
+      total += w;
+    }
+  }
+  const affinity: GenreAffinity = {};
+  for (const [g, c] of Object.entries(counts)) affinity[g] = c / total;
+  return affinity;
+}
+
+export function topGenres(affinity: GenreAffinity, n = 3): string[] {
+  return Object.entries(affinity)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, n)
+    .map(([g]) => g);
+}
+
+/**
+ * フォロー中の人の評価（新しいほど重い）× 自分のジャンル嗜好で店をランク付けする。
+ * subject は reasons で対象ユーザーを指す名前（省略時は "you"）
+ */
+export function rankPlaces(
+  followeePosts: ScoredPost[],
+  places: GenrePlace[],
+  affinity: GenreAffinity,
+  { subject, now = Date.now() }: { subject?: string; now?: number } = {}
+): PlaceRecommendation[] {
+  const postsByPlace: Record<string, ScoredPost[]> = {};
+  for (const p of followeePosts) if (p.place_id) (postsByPlace[p.place_id] ??= []).push(p);
+
+  const favorite = new Set(topGenres(affinity));
+  const who = subject ?? "you";
+  const [follows, eats] = subject ? ["follows", "eats"] : ["follow", "eat"];
+
+  return places
+    .filter((pl) => postsByPlace[pl.place_id]?.length)
+    .map((pl) => {
+      const posts = postsByPlace[pl.place_id];
+      const social = posts.reduce(
+        (sum, p) => sum + ((p.recommend_score ?? DEFAULT_SCORE) / 5) * recencyWeight(p.created_at, now),
+        0
+      );
+      const genres = genreKeys(pl);
+      const genreBoost = genres.reduce((sum, g) => sum + (affinity[g] ?? 0), 0);
+
+      const raters = new Set(posts.map((p) => p.user_id));
+      const highRaters = new Set(
+        posts.filter((p) => (p.recommend_score ?? 0) >= HIGH_SCORE).map((p) => p.user_id)
+      );
+      const scores = posts.map((p) => p.recommend_score).filter((s): s is number => typeof s === "number");
+      const last = posts
+        .map((p) => p.created_at)
+        .filter((d): d is string => Boolean(d))
+        .sort()
+        .pop();
+
+      const reasons: string[] = [];
+      if (highRaters.size > 0) {
+        const people = highRaters.size === 1 ? "person" : "people";
+        reasons.push(`${highRaters.size} ${people} ${who} ${follows} rated ${HIGH_SCORE}+`);
+      } else {
+        reasons.push(`${raters.size} ${raters.size === 1 ? "person" : "people"} ${who} ${follows} posted here`);
+      }
+      const matched = genres.filter((g) => favorite.has(g));
+      if (matched.length > 0) reasons.push(`Matches genres ${who} often ${eats}: ${matched.join(", ")}`);
+      if (last && now - Date.parse(last) < 30 * DAY_MS) reasons.push(`Recently posted by someone ${who} ${follows}`);
+
+      return {
+        place_id: pl.place_id,
+        score: round2(social * (1 + genreBoost)),
+        followee_count: raters.size,
+        followee_avg_recommend_score:
+          scores.length > 0 ? round2(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+        last_followee_post_at: last ?? null,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.place_id.localeCompare(b.place_id));
+}
@@ -0,0 +1,76 @@
+// lib/resources.ts
+// MCP リソースの URI と、ツール結果に付ける resource_link
+
+export const RESOURCE_TEMPLATES = {
+  place: "gourmeet://place/{place_id}",
+  post: "gourmeet://post/{id}",
+  profile: "gourmeet://profile/{username}",
+} as const;
+
+export const resourceUri = {
+  place: (placeId: string) => `gourmeet://place/${encodeURIComponent(placeId)}`,
+  post: (id: string) => `gourmeet://post/${encodeURIComponent(id)}`,
+  profile: (username: string) => `gourmeet://profile/${encodeURIComponent(username)}`,
+};
+
+export type ResourceLink = {
+  type: "resource_link";
+  uri: string;
+  name: string;
+  title?: string;
+  mimeType: string;
+};
+
+const JSON_MIME = "application/json";
+
+export const placeLink = (pl: { place_id: string; name: string | null }): ResourceLink => ({
+  type: "resource_link",
+  uri: resourceUri.place(pl.place_id),
+  name: pl.place_id,
+  title: pl.name ?? undefined,
+  mimeType: JSON_MIME,
+});
+
+export const postLink = (p: { id: string; place_name: string | null }): ResourceLink => ({
+  type: "resource_link",
+  uri: resourceUri.post(p.id),
+  name: p.id,
+  title: p.place_name ?? undefined,
+  mimeType: JSON_MIME,
+});
+
+// username の無いプロフィールには URI を振れない
+export const profileLink = (pr: { username: string | null; display_name: string | null }): ResourceLink[] =>
+  pr.username
+    ? [
+        {
+          type: "resource_link",
+          uri: resourceUri.profile(pr.username),
+          name: pr.username,
+          title: pr.display_name ?? undefined,
+          mimeType: JSON_MIME,
+        },
+      ]
+    : [];
+
+// 同じ店・投稿者が何度も出るので URI で重複を除く
+export function dedupeLinks(links: ResourceLink[]): ResourceLink[] {
+  const seen = new Set<string>();
+  return links.filter((l) => (seen.has(l.uri) ? false : (seen.add(l.uri), true)));
+}
+
+export const postLinks = (
+  posts: {
+    id: string;
+    place_name: string | null;
+    place: { place_id: string; name: string | null } | null;
+    author: { username: string | null; display_name: string | null } | null;
+  }[]
+): ResourceLink[] =>
+  dedupeLinks(
+    posts.flatMap((p) => [
+      postLink(p),
+      ...(p.place ? [placeLink(p.place)] : []),
+      ...(p.author ? profileLink(p.author) : []),
+    ])
+  );
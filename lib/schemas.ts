@@ -0,0 +1,315 @@
+// lib/schemas.ts
+// ツールの outputSchema と、Supabase から select する列の対応をここで一元管理する
+import { z } from "zod";
+
+const ts = z.string().nullable();
+
+// -------------------------
+// posts
+// -------------------------
+export const POST_COLUMNS =
+  "id,user_id,content,created_at,image_urls,place_name,place_address,place_id,image_variants,recommend_score,price_yen,price_range";
+
+export const postRowSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  content: z.string().nullable(),
+  created_at: ts,
+  image_urls: z.array(z.string()).nullable(),
+  place_name: z.string().nullable(),
+  place_address: z.string().nullable(),
+  place_id: z.string().nullable(),
+  image_variants: z.unknown().nullable(),
+  recommend_score: z.number().nullable(),
+  price_yen: z.number().nullable(),
+  price_range: z.string().nullable(),
+});
+export type PostRow = z.infer<typeof postRowSchema>;
+
+export const IMAGE_SIZES = ["thumbnail", "medium", "original"] as const;
+export type ImageSize = (typeof IMAGE_SIZES)[number];
+
+export const imageVariantSchema = z.object({
+  url: z.string(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  mime_type: z.string().nullable(),
+  bytes: z.number().nullable(),
+});
+export type ImageVariant = z.infer<typeof imageVariantSchema>;
+
+// 投稿の画像 1 枚ぶん。image_variants に無い大きさは null
+export const postImageSchema = z.object({
+  thumbnail: imageVariantSchema.nullable(),
+  medium: imageVariantSchema.nullable(),
+  original: imageVariantSchema.nullable(),
+});
+export type PostImage = z.infer<typeof postImageSchema>;
+
+// -------------------------
+// places
+// -------------------------
+export const PLACE_SUMMARY_COLUMNS =
+  "place_id,name,address,lat,lng,photo_url,primary_genre,genre_tags,primary_type,updated_at";
+
+export const PLACE_DETAIL_COLUMNS =
+  "place_id,name,address,lat,lng,photo_url,updated_at,place_types,primary_type,types_fetched_at,primary_genre,genre_tags,genre_source,genre_confidence,genre_updated_at";
+
+export const placeSummarySchema = z.object({
+  place_id: z.string(),
+  name: z.string().nullable(),
+  address: z.string().nullable(),
+  lat: z.number().nullable(),
+  lng: z.number().nullable(),
+  photo_url: z.string().nullable(),
+  primary_genre: z.string().nullable(),
+  genre_tags: z.array(z.string()).nullable(),
+  primary_type: z.string().nullable(),
+  updated_at: ts,
+});
+export type PlaceSummary = z.infer<typeof placeSummarySchema>;
+
+export const placeDetailSchema = placeSummarySchema.extend({
+  place_types: z.array(z.string()).nullable(),
+  types_fetched_at: ts,
+  genre_source: z.string().nullable(),
+  genre_confidence: z.number().nullable(),
+  genre_updated_at: ts,
+});
+export type PlaceDetail = z.infer<typeof placeDetailSchema>;
+
+export const PLACE_GENRE_COLUMNS = "place_id,primary_genre,genre_tags,genre_source,genre_confidence";
+
+export type PlaceGenre = Pick<
+  PlaceDetail,
+  "place_id" | "primary_genre" | "genre_tags" | "genre_source" | "genre_confidence"
+>;
+
+// -------------------------
+// profiles
+// -------------------------
+export const PROFILE_SUMMARY_COLUMNS = "id,username,display_name,avatar_url,is_public,updated_at";
+
+export const AUTHOR_COLUMNS = `${PROFILE_SUMMARY_COLUMNS},bio,header_image_url`;
+
+export const PROFILE_DETAIL_COLUMNS =
+  "id,display_name,avatar_url,updated_at,username,username_ci,username_updated_at,bio,is_public,header_image_url";
+
+export const profileSummarySchema = z.object({
+  id: z.string(),
+  username: z.string().nullable(),
+  display_name: z.string().nullable(),
+  avatar_url: z.string().nullable(),
+  is_public: z.boolean().nullable(),
+  updated_at: ts,
+});
+export type ProfileSummary = z.infer<typeof profileSummarySchema>;
+
+export const authorSchema = profileSummarySchema.extend({
+  bio: z.string().nullable(),
+  header_image_url: z.string().nullable(),
+});
+export type Author = z.infer<typeof authorSchema>;
+
+export const profileDetailSchema = authorSchema.extend({
+  username_ci: z.string().nullable(),
+  username_updated_at: ts,
+});
+export type ProfileDetail = z.infer<typeof profileDetailSchema>;
+
+// -------------------------
+// follows
+// -------------------------
+export const FOLLOW_COLUMNS = "follower_id,followee_id,created_at,status,request_read";
+
+export const followRowSchema = z.object({
+  follower_id: z.string(),
+  followee_id: z.string(),
+  created_at: ts,
+  status: z.string(),
+  request_read: z.boolean().nullable(),
+});
+export type FollowRow = z.infer<typeof followRowSchema>;
+
+// -------------------------
+// enriched
+// -------------------------
+export const enrichedPostSchema = postRowSchema.extend({
+  /** image_variants（と image_urls）を画像ごとに読み直したもの */
+  image_variants: z.array(postImageSchema),
+  /** 各画像の、指定の大きさ（無ければ近い大きさ）のもの */
+  images: z.array(imageVariantSchema.extend({ size: z.enum(IMAGE_SIZES) })),
+  author: authorSchema.nullable(),
+  place: placeSummarySchema.nullable(),
+});
+export type EnrichedPost = z.infer<typeof enrichedPostSchema>;
+
+// feed.home の 1 件。score は top / discover のときだけ
+export const feedPostSchema = enrichedPostSchema.extend({
+  score: z.number().nullable(),
+  reasons: z.array(z.string()),
+});
+
+export const placeWithStatsSchema = placeSummarySchema.extend({
+  post_count: z.number(),
+  avg_recommend_score: z.number().nullable(),
+});
+
+export const nearbyPlaceSchema = placeWithStatsSchema.extend({
+  distance_m: z.number(),
+});
+
+// places.by_genre の 1 件
+export const genrePlaceSchema = placeWithStatsSchema.extend({
+  genre_source: z.string().nullable(),
+  genre_confidence: z.number().nullable(),
+});
+
+// genres.list の 1 件。genre は表記ゆれを寄せた代表名、aliases は寄せる前の表記
+export const genreBucketSchema = z.object({
+  genre: z.string(),
+  place_count: z.number(),
+  post_count: z.number(),
+  aliases: z.array(z.string()),
+});
+
+export const placeStatsSchema = z.object({
+  place_id: z.string(),
+  place: placeSummarySchema.nullable(),
+  stats: z.object({
+    post_count: z.number(),
+    avg_recommend_score: z.number().nullable(),
+    median_recommend_score: z.number().nullable(),
+    price_range_distribution: z.record(z.string(), z.number()),
+    median_price_yen: z.number().nullable(),
+    first_post_at: ts,
+    last_post_at: ts,
+  }),
+  top_reviewers: z.array(
+    z.object({
+      user_id: z.string(),
+      post_count: z.number(),
+      avg_recommend_score: z.number().nullable(),
+      profile: profileSummarySchema.nullable(),
+    })
+  ),
+  representative_posts: z.array(enrichedPostSchema),
+});
+export type PlaceStats = z.infer<typeof placeStatsSchema>;
+
+export const recommendationSchema = z.object({
+  place: placeSummarySchema,
+  distance_m: z.number().nullable(),
+  score: z.number(),
+  followee_count: z.number(),
+  followee_avg_recommend_score: z.number().nullable(),
+  last_followee_post_at: ts,
+  reasons: z.array(z.string()),
+});
+
+// follows.suggestions の 1 件。followed_by は候補をフォローしている、ユーザーのフォロー先の id
+export const followSuggestionSchema = z.object({
+  profile: profileSummarySchema,
+  score: z.number(),
+  followed_by: z.array(z.string()),
+  shared_place_ids: z.array(z.string()),
+  follows_you: z.boolean(),
+  reasons: z.array(z.string()),
+});
+
+const genreShareSchema = z.object({ genre: z.string(), post_count: z.number(), share: z.number() });
+
+// profiles.taste
+export const tasteProfileSchema = z.object({
+  post_count: z.number(),
+  place_count: z.number(),
+  first_post_at: ts,
+  last_post_at: ts,
+  genres: z.object({
+    primary_genres: z.array(genreShareSchema),
+    genre_tags: z.array(genreShareSchema),
+  }),
+  price: z.object({
+    avg_price_yen: z.number().nullable(),
+    median_price_yen: z.number().nullable(),
+    typical_price_range: z.string().nullable(),
+    price_range_distribution: z.record(z.string(), z.number()),
+  }),
+  scores: z.object({
+    avg_recommend_score: z.number().nullable(),
+    median_recommend_score: z.number().nullable(),
+    compared_place_count: z.number(),
+    others_avg_recommend_score: z.number().nullable(),
+    avg_difference: z.number().nullable(),
+    tendency: z.enum(["higher", "lower", "similar"]).nullable(),
+  }),
+  areas: z.array(
+    z.object({
+      label: z.string().nullable(),
+      center: z.object({ lat: z.number(), lng: z.number() }),
+      radius_m: z.number(),
+      post_count: z.number(),
+      place_count: z.number(),
+      place_ids: z.array(z.string()),
+    })
+  ),
+  favorites: z.array(
+    z.object({
+      place: placeSummarySchema.nullable(),
+      post_count: z.number(),
+      avg_recommend_score: z.number(),
+      last_posted_at: ts,
+    })
+  ),
+  timeline: z.array(
+    z.object({
+      period: z.string(),
+      post_count: z.number(),
+      avg_recommend_score: z.number().nullable(),
+      avg_price_yen: z.number().nullable(),
+      top_genre: z.string().nullable(),
+    })
+  ),
+});
+
+const matchSignalsSchema = z.object({
+  name: z.number(),
+  address: z.number().nullable(),
+  distance_m: z.number().nullable(),
+});
+
+// places.resolve の候補。confidence は 0〜1
+export const placeCandidateSchema = z.object({
+  place: placeSummarySchema,
+  confidence: z.number(),
+  signals: matchSignalsSchema,
+  reasons: z.array(z.string()),
+});
+
+// admin.duplicate_places の 1 組（a.place_id < b.place_id）
+export const duplicatePlacePairSchema = z.object({
+  a: placeSummarySchema,
+  b: placeSummarySchema,
+  confidence: z.number(),
+  signals: matchSignalsSchema,
+  reasons: z.array(z.string()),
+});
+
+// trends.places の 1 件。baseline_post_count は基準期間の 1 窓あたりの投稿数
+export const trendingPlaceSchema = z.object({
+  place: placeSummarySchema,
+  distance_m: z.number().nullable(),
+  score: z.number(),
+  recent_post_count: z.number(),
+  recent_user_count: z.number(),
+  baseline_post_count: z.number(),
+  avg_recommend_score: z.number().nullable(),
+  reasons: z.array(z.string()),
+});
+
+// trends.activity の 1 区切り。start は区切りの始まり（UTC）
+export const activityPointSchema = z.object({
+  start: z.string(),
+  post_count: z.number(),
+  avg_recommend_score: z.number().nullable(),
+});
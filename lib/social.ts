@@ -0,0 +1,84 @@
+// lib/social.ts
+// follows.suggestions のスコアリング（DB アクセスはしない）
+import { round2 } from "@/lib/stats";
+
+type Edge = { follower_id: string; followee_id: string };
+type PlacePost = { user_id: string; place_id: string | null };
+
+export type FollowSuggestion = {
+  user_id: string;
+  score: number;
+  /** 候補をフォローしている、ユーザーのフォロー先 */
+  followed_by: string[];
+  /** ユーザーと候補の両方が投稿した店 */
+  shared_place_ids: string[];
+  follows_you: boolean;
+  reasons: string[];
+};
+
+// 共通のフォロー先 1 人 = 1、同じ店 1 軒 = 0.5、フォローバック候補 = 1
+const FRIEND_WEIGHT = 1;
+const PLACE_WEIGHT = 0.5;
+const FOLLOWS_YOU_WEIGHT = 1;
+
+const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+/**
+ * 友達の友達（followeeEdges = フォロー先がフォローしている辺）と、同じ店への投稿（placePosts = 他人の投稿）から
+ * フォロー候補を並べる。exclude（本人・フォロー済み・リクエスト中）は候補にしない。
+ * subject は reasons で対象ユーザーを指す名前（省略時は "you"）
+ */
+export function rankSuggestions(input: {
+  followeeEdges: Edge[];
+  placePosts: PlacePost[];
+  followerIds: string[];
+  exclude: Set<string>;
+  subject?: string;
+}): FollowSuggestion[] {
+  const via: Record<string, Set<string>> = {};
+  const shared: Record<string, Set<string>> = {};
+
+  for (const e of input.followeeEdges) {
+    if (!input.exclude.has(e.followee_id)) (via[e.followee_id] ??= new Set()).add(e.follower_id);
+  }
+  for (const p of input.placePosts) {
+    if (p.place_id && !input.exclude.has(p.user_id)) (shared[p.user_id] ??= new Set()).add(p.place_id);
+  }
+
+  const who = input.subject ?? "you";
+  const follows = input.subject ? "follows" : "follow";
+  const followers = new Set(input.followerIds);
+  const candidates = new Set([...Object.keys(via), ...Object.keys(shared)]);
+  // フォローしてくれている人は、他に手がかりが無くても候補に入れる
+  for (const id of followers) if (!input.exclude.has(id)) candidates.add(id);
+
+  return Array.from(candidates)
+    .map((user_id) => {
+      const followed_by = Array.from(via[user_id] ?? []).sort();
+      const shared_place_ids = Array.from(shared[user_id] ?? []).sort();
+      const follows_you = followers.has(user_id);
+
+      const reasons: string[] = [];
+      if (follows_you) reasons.push(`Follows ${who}`);
+      if (followed_by.length > 0) {
+        reasons.push(`Followed by ${plural(followed_by.length, "person", "people")} ${who} ${follows}`);
+      }
+      if (shared_place_ids.length > 0) {
+        reasons.push(`Posted about ${plural(shared_place_ids.length, "place", "places")} ${who} also posted about`);
+      }
+
+      return {
+        user_id,
+        score: round2(
+          followed_by.length * FRIEND_WEIGHT +
+            shared_place_ids.length * PLACE_WEIGHT +
+            (follows_you ? FOLLOWS_YOU_WEIGHT : 0)
+        ),
+        followed_by,
+        shared_place_ids,
+        follows_you,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.user_id.localeCompare(b.user_id));
+}
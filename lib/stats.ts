@@ -0,0 +1,18 @@
+// lib/stats.ts
+
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round2(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return round2(sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+export const numbersOf = <T,>(rows: T[], pick: (row: T) => number | null | undefined) =>
+  rows.map(pick).filter((v): v is number => typeof v === "number" && Number.isFinite(v));
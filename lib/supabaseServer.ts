@@ -1,12 +1,16 @@
 // lib/supabaseServer.ts
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { ToolError } from "@/lib/errors";
+import { log } from "@/lib/log";
 
-export function getSupabaseServerClient() {
-  const url = process.env.SUPABASE_URL;
+export const supabaseUrl = () => process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+
+export function getSupabaseOptional(): SupabaseClient | null {
+  const url = supabaseUrl();
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-  if (!url) throw new Error("Missing env: SUPABASE_URL");
-  if (!serviceKey) throw new Error("Missing env: SUPABASE_SERVICE_ROLE_KEY");
+  // pingだけでも動くように、ここではthrowしない
+  if (!url || !serviceKey) return null;
 
   // server-only client
   return createClient(url, serviceKey, {
@@ -14,3 +18,17 @@ export function getSupabaseServerClient() {
   });
 }
 
+export function requireSupabase(): SupabaseClient {
+  const sb = getSupabaseOptional();
+  if (!sb) {
+    const hasUrl = Boolean(supabaseUrl());
+    const hasKey = Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY);
+    // どの env が足りないかはサーバーログにだけ出す
+    log.error("mcp.supabase_not_configured", {
+      url: hasUrl ? "ok" : "missing",
+      service_role: hasKey ? "ok" : "missing",
+    });
+    throw new ToolError("UPSTREAM_UNAVAILABLE", "The data store is not configured");
+  }
+  return sb;
+}
@@ -0,0 +1,210 @@
+// lib/taste.ts
+// profiles.taste の集計（DB アクセスはしない）
+import { clusterPoints } from "@/lib/geo";
+import { mean, median, numbersOf, round2 } from "@/lib/stats";
+
+type TastePost = {
+  user_id: string;
+  place_id: string | null;
+  created_at: string | null;
+  recommend_score: number | null;
+  price_yen: number | null;
+  price_range: string | null;
+};
+
+type TastePlace = {
+  place_id: string;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+  primary_genre: string | null;
+  genre_tags: string[] | null;
+};
+
+export type GenreShare = { genre: string; post_count: number; share: number };
+
+export type TasteArea = {
+  label: string | null;
+  center: { lat: number; lng: number };
+  radius_m: number;
+  post_count: number;
+  place_count: number;
+  /** 投稿の多い順に最大 3 件 */
+  place_ids: string[];
+};
+
+export type FavoritePlace = {
+  place_id: string;
+  post_count: number;
+  avg_recommend_score: number;
+  last_posted_at: string | null;
+};
+
+export type TastePeriod = {
+  period: string;
+  post_count: number;
+  avg_recommend_score: number | null;
+  avg_price_yen: number | null;
+  top_genre: string | null;
+};
+
+// 同じ店についた他人の評価との差がこれ未満なら「同じくらい」
+const SIMILAR_DIFF = 0.25;
+const AREA_RADIUS_M = 2000;
+const MAX_AREAS = 5;
+const MAX_FAVORITES = 5;
+
+// 緯度経度は 5 桁（約 1m）で十分
+const round5 = (n: number) => Math.round(n * 1e5) / 1e5;
+
+const countBy = (keys: string[]) => {
+  const counts: Record<string, number> = {};
+  for (const k of keys) counts[k] = (counts[k] ?? 0) + 1;
+  return counts;
+};
+
+const topEntries = (counts: Record<string, number>) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+const groupBy = <T,>(rows: T[], key: (row: T) => string | null) => {
+  const groups: Record<string, T[]> = {};
+  for (const r of rows) {
+    const k = key(r);
+    if (k !== null) (groups[k] ??= []).push(r);
+  }
+  return groups;
+};
+
+const latest = (posts: TastePost[]) =>
+  posts
+    .map((p) => p.created_at)
+    .filter((d): d is string => Boolean(d))
+    .sort()
+    .pop() ?? null;
+
+/**
+ * 投稿（= 1 回の訪問）単位で数えたジャンルの割合。店が分からない投稿は分母に入れない
+ */
+export function genreDistribution(posts: TastePost[], placesById: Record<string, TastePlace>) {
+  const places = posts.flatMap((p) => (p.place_id && placesById[p.place_id] ? [placesById[p.place_id]] : []));
+  const shares = (genres: string[]): GenreShare[] =>
+    topEntries(countBy(genres)).map(([genre, post_count]) => ({
+      genre,
+      post_count,
+      share: round2(post_count / places.length),
+    }));
+
+  return {
+    primary_genres: shares(places.flatMap((pl) => (pl.primary_genre ? [pl.primary_genre] : []))),
+    genre_tags: shares(places.flatMap((pl) => Array.from(new Set(pl.genre_tags ?? [])))),
+  };
+}
+
+export function priceSummary(posts: TastePost[]) {
+  const yen = numbersOf(posts, (p) => p.price_yen);
+  const ranges = countBy(posts.flatMap((p) => (p.price_range ? [p.price_range] : [])));
+  return {
+    avg_price_yen: mean(yen),
+    median_price_yen: median(yen),
+    typical_price_range: topEntries(ranges)[0]?.[0] ?? null,
+    price_range_distribution: ranges,
+  };
+}
+
+/**
+ * 自分の評価と、同じ店についた他人の評価（others）の比較。店ごとに平均の差を取り、その平均を返す
+ */
+export function scoreComparison(posts: TastePost[], others: TastePost[]) {
+  const rated = (rows: TastePost[]) => groupBy(rows.filter((p) => p.recommend_score !== null), (p) => p.place_id);
+  const mine = rated(posts);
+  const theirs = rated(others);
+
+  const compared = Object.keys(mine).filter((id) => theirs[id]);
+  const avgOf = (rows: TastePost[]) => mean(numbersOf(rows, (p) => p.recommend_score)) ?? 0;
+  const diff = mean(compared.map((id) => avgOf(mine[id]) - avgOf(theirs[id])));
+
+  return {
+    avg_recommend_score: mean(numbersOf(posts, (p) => p.recommend_score)),
+    median_recommend_score: median(numbersOf(posts, (p) => p.recommend_score)),
+    compared_place_count: compared.length,
+    others_avg_recommend_score: mean(compared.map((id) => avgOf(theirs[id]))),
+    avg_difference: diff,
+    tendency:
+      diff === null ? null : Math.abs(diff) < SIMILAR_DIFF ? "similar" : diff > 0 ? "higher" : "lower",
+  } as const;
+}
+
+// 住所の共通の書き出し（"東京都渋谷区" など）を地域名として使う
+function commonPrefix(addresses: string[]): string | null {
+  if (addresses.length === 0) return null;
+  let prefix = addresses[0];
+  for (const a of addresses.slice(1)) {
+    let i = 0;
+    while (i < prefix.length && i < a.length && prefix[i] === a[i]) i++;
+    prefix = prefix.slice(0, i);
+  }
+  prefix = prefix.replace(/[\s\d０-９-－]+$/, "").trim();
+  return prefix || null;
+}
+
+/**
+ * よく行く地域。店を投稿数で重み付けしてクラスタにまとめる
+ */
+export function frequentAreas(posts: TastePost[], placesById: Record<string, TastePlace>): TasteArea[] {
+  const visits = countBy(posts.flatMap((p) => (p.place_id ? [p.place_id] : [])));
+  const points = Object.keys(visits).flatMap((id) => {
+    const pl = placesById[id];
+    return pl && pl.lat !== null && pl.lng !== null ? [{ ...pl, lat: pl.lat, lng: pl.lng }] : [];
+  });
+
+  return clusterPoints(points, AREA_RADIUS_M, (pl) => visits[pl.place_id])
+    .slice(0, MAX_AREAS)
+    .map((c) => ({
+      label: commonPrefix(c.members.flatMap((pl) => (pl.address ? [pl.address] : []))),
+      center: { lat: round5(c.center.lat), lng: round5(c.center.lng) },
+      radius_m: Math.round(c.radius_m),
+      post_count: c.weight,
+      place_count: c.members.length,
+      place_ids: c.members.slice(0, 3).map((pl) => pl.place_id),
+    }));
+}
+
+/**
+ * 自分の評価の平均が高い店。同点なら通った回数、最後に投稿した日の新しい順
+ */
+export function favoritePlaces(posts: TastePost[]): FavoritePlace[] {
+  return Object.entries(groupBy(posts, (p) => p.place_id))
+    .flatMap(([place_id, rows]) => {
+      const avg = mean(numbersOf(rows, (p) => p.recommend_score));
+      return avg === null
+        ? []
+        : [{ place_id, post_count: rows.length, avg_recommend_score: avg, last_posted_at: latest(rows) }];
+    })
+    .sort(
+      (a, b) =>
+        b.avg_recommend_score - a.avg_recommend_score ||
+        b.post_count - a.post_count ||
+        (b.last_posted_at ?? "").localeCompare(a.last_posted_at ?? "")
+    )
+    .slice(0, MAX_FAVORITES);
+}
+
+/**
+ * 月（YYYY-MM）または年（YYYY）ごとの推移。古い順
+ */
+export function tasteTimeline(
+  posts: TastePost[],
+  placesById: Record<string, TastePlace>,
+  granularity: "month" | "year"
+): TastePeriod[] {
+  const len = granularity === "month" ? 7 : 4;
+  return Object.entries(groupBy(posts, (p) => p.created_at?.slice(0, len) ?? null))
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([period, rows]) => ({
+      period,
+      post_count: rows.length,
+      avg_recommend_score: mean(numbersOf(rows, (p) => p.recommend_score)),
+      avg_price_yen: mean(numbersOf(rows, (p) => p.price_yen)),
+      top_genre: genreDistribution(rows, placesById).primary_genres[0]?.genre ?? null,
+    }));
+}
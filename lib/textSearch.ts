@@ -0,0 +1,49 @@
+// lib/textSearch.ts
+// 日本語の投稿本文を ilike で拾うためのクエリ正規化
+
+const MAX_TERMS = 5;
+
+// 全角英数・半角カナなどを NFKC で寄せ、英字は小文字に
+export function normalizeJa(s: string): string {
+  return s.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+const shiftCodePoints = (s: string, from: number, to: number, delta: number) =>
+  s.replace(/./gu, (ch) => {
+    const cp = ch.codePointAt(0)!;
+    return cp >= from && cp <= to ? String.fromCodePoint(cp + delta) : ch;
+  });
+
+// ぁ(3041)〜ゖ(3096) ⇔ ァ(30A1)〜ヶ(30F6)
+export const toKatakana = (s: string) => shiftCodePoints(s, 0x3041, 0x3096, 0x60);
+export const toHiragana = (s: string) => shiftCodePoints(s, 0x30a1, 0x30f6, -0x60);
+
+// DB 側に全角英数のまま入っている投稿も拾う
+const toFullWidthAscii = (s: string) => shiftCodePoints(s, 0x21, 0x7e, 0xfee0);
+
+/**
+ * 1語ぶんの検索バリエーション（ひらがな/カタカナ、全角/半角）
+ */
+export function termVariants(term: string): string[] {
+  const base = normalizeJa(term);
+  return Array.from(new Set([base, toKatakana(base), toHiragana(base), toFullWidthAscii(base)])).filter(Boolean);
+}
+
+export function splitTerms(query: string): string[] {
+  return normalizeJa(query)
+    .split(" ")
+    .map((t) => t.replace(/[*%,()"\\]/g, ""))
+    .filter(Boolean)
+    .slice(0, MAX_TERMS);
+}
+
+/**
+ * 語ごとに `.or()` へ渡すフィルタ文字列を返す。語同士は AND、各語の中は列×バリエーションの OR。
+ */
+export function keywordOrFilters(query: string, columns: string[]): string[] {
+  return splitTerms(query).map((term) =>
+    termVariants(term)
+      .flatMap((v) => columns.map((col) => `${col}.ilike."*${v}*"`))
+      .join(",")
+  );
+}
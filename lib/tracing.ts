@@ -0,0 +1,67 @@
+// lib/tracing.ts
+// JSON-RPC 呼び出し 1 件ぶんのスパン（DB クエリや enrichPosts などの区間）を集める。
+// AsyncLocalStorage で非同期の呼び出し元をたどるので、ストアやヘルパーに引数で渡す必要はない
+import { AsyncLocalStorage } from "node:async_hooks";
+import { spanDuration, spanErrors } from "@/lib/metrics";
+
+export type Span = {
+  name: string;
+  /** 外側のスパン名（なければ呼び出し直下） */
+  parent?: string;
+  /** 呼び出し開始からの経過 ms */
+  start_ms: number;
+  duration_ms: number;
+  error?: true;
+};
+
+export type Trace = { requestId?: string; startedAt: number; spans: Span[]; dropped: number };
+
+// 1 呼び出しで記録するスパンの上限（recommend などでログが膨らみすぎないように）
+const MAX_SPANS = 100;
+
+const scope = new AsyncLocalStorage<{ trace: Trace; parent?: string }>();
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+export const createTrace = (requestId?: string): Trace => ({
+  requestId,
+  startedAt: performance.now(),
+  spans: [],
+  dropped: 0,
+});
+
+export const runWithTrace = <T,>(trace: Trace, fn: () => T): T => scope.run({ trace }, fn);
+
+// ログに request_id を付けるため、いま実行中の呼び出しのトレースを返す
+export const currentTrace = (): Trace | undefined => scope.getStore()?.trace;
+
+/**
+ * fn を 1 つのスパンとして計測する。トレース外で呼ばれてもメトリクスには記録する
+ */
+export async function traced<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const current = scope.getStore();
+  const start = performance.now();
+  let failed = false;
+  try {
+    return current ? await scope.run({ trace: current.trace, parent: name }, fn) : await fn();
+  } catch (e) {
+    failed = true;
+    throw e;
+  } finally {
+    const duration = performance.now() - start;
+    spanDuration.observe({ span: name }, duration / 1000);
+    if (failed) spanErrors.inc({ span: name });
+
+    if (current && current.trace.spans.length < MAX_SPANS) {
+      current.trace.spans.push({
+        name,
+        ...(current.parent ? { parent: current.parent } : {}),
+        start_ms: round(start - current.trace.startedAt),
+        duration_ms: round(duration),
+        ...(failed ? { error: true as const } : {}),
+      });
+    } else if (current) {
+      current.trace.dropped += 1;
+    }
+  }
+}
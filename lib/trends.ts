@@ -0,0 +1,146 @@
+// lib/trends.ts
+// trends.places / trends.activity の集計（DB アクセスはしない）。時刻は UTC
+import { mean, numbersOf, round2 } from "@/lib/stats";
+
+type TrendPost = {
+  user_id: string;
+  place_id: string | null;
+  created_at: string | null;
+  recommend_score: number | null;
+};
+
+export const TREND_WINDOWS = { "24h": 24 * 3600_000, "7d": 7 * 24 * 3600_000, "30d": 30 * 24 * 3600_000 } as const;
+export type TrendWindow = keyof typeof TREND_WINDOWS;
+
+export const ACTIVITY_BUCKETS = ["hour", "day", "week", "month"] as const;
+export type ActivityBucket = (typeof ACTIVITY_BUCKETS)[number];
+
+export type TrendingPlace = {
+  place_id: string;
+  score: number;
+  recent_post_count: number;
+  recent_user_count: number;
+  /** 基準期間の 1 窓あたりの投稿数 */
+  baseline_post_count: number;
+  avg_recommend_score: number | null;
+  reasons: string[];
+};
+
+export type ActivityPoint = { start: string; post_count: number; avg_recommend_score: number | null };
+
+// おすすめ度の無い店は真ん中（3）とみなす
+const NEUTRAL_SCORE = 3;
+
+const timeOf = (p: TrendPost) => (p.created_at ? Date.parse(p.created_at) : NaN);
+
+/**
+ * until 直前の 1 窓（recent）と、その前の baselineWindows 窓（baseline）の投稿数を店ごとに比べる。
+ * score = 1 窓あたりの増分 × おすすめ度の係数（平均 1 → 0.7、3 → 1.1、5 → 1.5）。増えていない店と、
+ * recent の投稿が minPosts 未満の店は入れない
+ */
+export function rankTrendingPlaces(
+  posts: TrendPost[],
+  opts: { until: number; windowMs: number; baselineWindows: number; minPosts: number; windowLabel: string }
+): TrendingPlace[] {
+  const recentFrom = opts.until - opts.windowMs;
+  const baselineFrom = recentFrom - opts.windowMs * opts.baselineWindows;
+
+  const recent: Record<string, TrendPost[]> = {};
+  const baseline: Record<string, number> = {};
+  for (const p of posts) {
+    const t = timeOf(p);
+    if (!p.place_id || !(t >= baselineFrom && t < opts.until)) continue;
+    if (t >= recentFrom) (recent[p.place_id] ??= []).push(p);
+    else baseline[p.place_id] = (baseline[p.place_id] ?? 0) + 1;
+  }
+
+  return Object.entries(recent)
+    .flatMap(([place_id, rows]) => {
+      const base = round2((baseline[place_id] ?? 0) / opts.baselineWindows);
+      const growth = rows.length - base;
+      if (rows.length < opts.minPosts || growth <= 0) return [];
+
+      const avg = mean(numbersOf(rows, (p) => p.recommend_score));
+      const w = opts.windowLabel;
+      const reasons = [`${rows.length} posts in the last ${w} vs ${base} per ${w} before`];
+      if (avg !== null) reasons.push(`Average score ${avg}`);
+      return [
+        {
+          place_id,
+          score: round2(growth * (0.5 + (avg ?? NEUTRAL_SCORE) / 5)),
+          recent_post_count: rows.length,
+          recent_user_count: new Set(rows.map((p) => p.user_id)).size,
+          baseline_post_count: base,
+          avg_recommend_score: avg,
+          reasons,
+        },
+      ];
+    })
+    .sort(
+      (a, b) => b.score - a.score || b.recent_post_count - a.recent_post_count || a.place_id.localeCompare(b.place_id)
+    );
+}
+
+// t を含む区切りの始まり（週は月曜始まり）
+export function bucketStart(t: number, bucket: ActivityBucket): number {
+  const d = new Date(t);
+  switch (bucket) {
+    case "hour":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours());
+    case "day":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+    case "week":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    case "month":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  }
+}
+
+function nextBucket(t: number, bucket: ActivityBucket): number {
+  const d = new Date(t);
+  switch (bucket) {
+    case "hour":
+      return t + 3600_000;
+    case "day":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+    case "week":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 7);
+    case "month":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+  }
+}
+
+/**
+ * [from, to) の区切りの始まりの一覧（from を含む区切りから）
+ */
+export function bucketStarts(from: number, to: number, bucket: ActivityBucket): number[] {
+  const out: number[] = [];
+  for (let t = bucketStart(from, bucket); t < to; t = nextBucket(t, bucket)) out.push(t);
+  return out;
+}
+
+// to の直前の区切りを 1 つ目として、n 個遡った区切りの始まり
+export function bucketsBefore(to: number, bucket: ActivityBucket, n: number): number {
+  let t = bucketStart(to - 1, bucket);
+  for (let i = 1; i < n; i++) t = bucketStart(t - 1, bucket);
+  return t;
+}
+
+/**
+ * 区切りごとの投稿数とおすすめ度の平均。投稿の無い区切りも 0 件として入れる。古い順
+ */
+export function activitySeries(posts: TrendPost[], from: number, to: number, bucket: ActivityBucket): ActivityPoint[] {
+  const groups: Record<number, TrendPost[]> = {};
+  for (const p of posts) {
+    const t = timeOf(p);
+    if (t >= from && t < to) (groups[bucketStart(t, bucket)] ??= []).push(p);
+  }
+  return bucketStarts(from, to, bucket).map((start) => {
+    const rows = groups[start] ?? [];
+    return {
+      start: new Date(start).toISOString(),
+      post_count: rows.length,
+      avg_recommend_score: mean(numbersOf(rows, (p) => p.recommend_score)),
+    };
+  });
+}
@@ -0,0 +1,67 @@
+// lib/viewer.ts
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { DataStore, PostVisibility } from "@/lib/data";
+
+type ProfileVisibility = { id: string; is_public: boolean | null };
+
+export type Viewer = {
+  /** null = 匿名（公開アカウントのみ閲覧可） */
+  id: string | null;
+  followeeIds: () => Promise<Set<string>>;
+  canView: (profile: ProfileVisibility | null | undefined) => Promise<boolean>;
+  canViewUser: (userId: string) => Promise<boolean>;
+  postVisibility: () => Promise<PostVisibility>;
+  visibleUserIds: (userIds: string[]) => Promise<string[]>;
+};
+
+// 認証済みなら authInfo.extra.userId に viewer の user_id が入る
+export function resolveViewerId(extra: { authInfo?: AuthInfo }): string | null {
+  const userId = extra.authInfo?.extra?.userId;
+  return typeof userId === "string" && userId ? userId : null;
+}
+
+const isPrivate = (profile: ProfileVisibility) => profile.is_public === false;
+
+/**
+ * 非公開アカウント（profiles.is_public = false）の中身は、本人か accepted のフォロワーだけが見られる。
+ * 1回のツール呼び出し内でだけ使う想定で、follows/profiles の結果はメモ化する。
+ */
+export function createViewer(store: DataStore, id: string | null): Viewer {
+  let followees: Promise<Set<string>> | null = null;
+
+  const followeeIds = () => {
+    followees ??= id ? store.follows.followeeIds(id).then((ids) => new Set(ids)) : Promise.resolve(new Set<string>());
+    return followees;
+  };
+
+  const canView = async (profile: ProfileVisibility | null | undefined) => {
+    // profile が無い投稿者は安全側に倒して非表示
+    if (!profile) return false;
+    if (!isPrivate(profile)) return true;
+    if (id && profile.id === id) return true;
+    return (await followeeIds()).has(profile.id);
+  };
+
+  const canViewUser = async (userId: string) => {
+    if (id && userId === id) return true;
+    return canView(await store.profiles.getDetail({ id: userId }));
+  };
+
+  // posts の絞り込み（PostQuery.visibleTo）。非公開アカウントの判定はストアが取れた行に対して行う
+  const postVisibility = async (): Promise<PostVisibility> => ({
+    viewerId: id,
+    followeeIds: Array.from(await followeeIds()),
+  });
+
+  // userIds のうち中身が見える人（順序は保つ）
+  const visibleUserIds = async (userIds: string[]) => {
+    const authors = Object.fromEntries((await store.profiles.listAuthors(userIds)).map((pr) => [pr.id, pr]));
+    const visible: string[] = [];
+    for (const uid of userIds) {
+      if (uid === id || (await canView(authors[uid]))) visible.push(uid);
+    }
+    return visible;
+  };
+
+  return { id, followeeIds, canView, canViewUser, postVisibility, visibleUserIds };
+}
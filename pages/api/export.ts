@@ -0,0 +1,153 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { AuthError, authenticate, readBearerToken, sendUnauthorized, toAuthInfo, type Identity } from "@/lib/auth";
+import { HTTP_STATUS, ToolError, toToolError } from "@/lib/errors";
+import {
+  EXPORT_FORMATS,
+  EXPORT_MAX_ROWS,
+  createExportWriter,
+  exportFilterSchema,
+  filterFromQuery,
+} from "@/lib/export";
+import { errorFields, log } from "@/lib/log";
+import { toolContext } from "@/lib/mcp/helpers";
+import { requestIdOf } from "@/lib/mcp/instrument";
+import { iteratePosts, resolveExportQuery } from "@/lib/mcp/queries";
+import { getRateLimiter, rateLimitKey } from "@/lib/rateLimit";
+import { getSupabaseOptional } from "@/lib/supabaseServer";
+
+const exportQuerySchema = exportFilterSchema.extend({
+  format: z.enum(EXPORT_FORMATS),
+  limit: z.number().int().positive().max(EXPORT_MAX_ROWS).optional(),
+});
+
+// export ツールと同じ { error: { code, message } } で返す
+function sendError(res: NextApiResponse, e: unknown) {
+  const err = toToolError(e);
+  if (err.retryAfterSec !== undefined) res.setHeader("Retry-After", String(err.retryAfterSec));
+  res.status(HTTP_STATUS[err.code]).json({ error: { code: err.code, message: err.message } });
+}
+
+/**
+ * export ツールの download_path。MCP と同じ Bearer で認証し、結果は行ごとに書き出す（全件をメモリに載せない）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "authorization");
+  res.setHeader("Access-Control-Expose-Headers", "Content-Disposition, WWW-Authenticate, Retry-After, X-Request-Id");
+
+  const requestId = requestIdOf(req);
+  res.setHeader("X-Request-Id", requestId);
+
+  if (req.method === "OPTIONS") {
+    res.status(204).end();
+    return;
+  }
+  if (req.method !== "GET") {
+    res.status(405).send("Method Not Allowed");
+    return;
+  }
+
+  const token = readBearerToken(req);
+  let identity: Identity | null;
+  try {
+    identity = await authenticate(req, getSupabaseOptional());
+  } catch (e) {
+    if (!(e instanceof AuthError)) {
+      log.error("mcp.auth_error", { request_id: requestId, error: errorFields(e) });
+      sendError(res, e);
+      return;
+    }
+    sendUnauthorized(res, e);
+    return;
+  }
+  if (!identity || !token) {
+    sendUnauthorized(res);
+    return;
+  }
+  const auth = toAuthInfo(token, identity);
+
+  const limiter = getRateLimiter();
+  const decision = await limiter.take(rateLimitKey(req, auth), limiter.costOfTool("export"));
+  if (!decision.allowed) {
+    sendError(res, new ToolError("RATE_LIMITED", "Too many requests", { retryAfterSec: decision.retryAfterSec }));
+    return;
+  }
+
+  const parsed = exportQuerySchema.safeParse({
+    ...filterFromQuery(req.query),
+    format: req.query.format,
+    limit: req.query.limit === undefined ? undefined : Number(req.query.limit),
+  });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    res.status(400).json({ error: { code: "INVALID_ARGUMENT", message: `${issue.path.join(".")}: ${issue.message}` } });
+    return;
+  }
+  const { format, limit = EXPORT_MAX_ROWS, ...filter } = parsed.data;
+
+  const { store, viewer } = toolContext({ authInfo: auth });
+  const writer = createExportWriter(format);
+  const startedAt = Date.now();
+
+  // 絞り込みの解決で失敗したら、まだヘッダーを送っていないので普通のエラー応答にできる
+  let query;
+  try {
+    query = await resolveExportQuery(store, viewer, filter);
+  } catch (e) {
+    sendError(res, e);
+    return;
+  }
+
+  res.setHeader("Content-Type", writer.mimeType);
+  res.setHeader("Content-Disposition", `attachment; filename="${writer.filename}"`);
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200);
+
+  // クライアントが先に切ったら読み進めない
+  let aborted = false;
+  res.on("close", () => {
+    aborted = !res.writableFinished;
+  });
+  // 送信バッファが溢れたら、はけるか切れるまで待つ
+  const drained = () =>
+    new Promise<void>((resolve) => {
+      const done = () => {
+        res.off("drain", done);
+        res.off("close", done);
+        resolve();
+      };
+      res.on("drain", done);
+      res.on("close", done);
+    });
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) await drained();
+  };
+
+  let rows = 0;
+  try {
+    await write(writer.head());
+    if (query) {
+      for await (const post of iteratePosts(store, viewer, query, limit)) {
+        if (aborted) break;
+        const line = writer.row(post);
+        if (line === null) continue;
+        await write(line);
+        rows++;
+      }
+    }
+    if (!aborted) res.end(writer.tail());
+    log.info("mcp.export", {
+      request_id: requestId,
+      client_id: auth.clientId,
+      format,
+      rows,
+      aborted,
+      duration_ms: Date.now() - startedAt,
+    });
+  } catch (e) {
+    // 途中まで送ってしまっているので、切って不完全なファイルだと分かるようにする
+    log.warn("mcp.export_failed", { request_id: requestId, format, rows, error: errorFields(e) });
+    res.destroy();
+  }
+}
@@ -0,0 +1,36 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { readBearerToken } from "@/lib/auth";
+import { registry } from "@/lib/metrics";
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+// MCP_METRICS_TOKEN を設定したら Bearer で同じ値を要求する（未設定なら本番以外でだけ誰でも読める）
+function authorized(req: NextApiRequest) {
+  const expected = process.env.MCP_METRICS_TOKEN;
+  if (!expected) return true;
+  const token = readBearerToken(req);
+  return token !== null && timingSafeEqual(sha256(token), sha256(expected));
+}
+
+// Prometheus のスクレイプ用（text exposition format 0.0.4）
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.status(405).send("Method Not Allowed");
+    return;
+  }
+  // 本番でトークンが無いときは、エンドポイントがあること自体を見せない
+  if (!process.env.MCP_METRICS_TOKEN && process.env.NODE_ENV === "production") {
+    res.status(404).send("Not Found");
+    return;
+  }
+  if (!authorized(req)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    res.status(401).send("Unauthorized");
+    return;
+  }
+
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).send(registry.render());
+}